@@ -0,0 +1,167 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { AdminIdentity, AdminKey, AdminRole, AuditEntry } from "./types";
+import { getDb } from "./db";
+import logger from "./logger";
+
+const KEYS_COLLECTION = "admin_keys";
+const AUDIT_COLLECTION = "audit_log";
+
+export const ADMIN_ROLES: AdminRole[] = ["viewer", "reviewer", "admin"];
+
+// Bootstrap key from the environment; always an admin. Optional once stored keys exist.
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+// keyId shared by everyone using the bootstrap key, so it can't stand for one person
+export const BOOTSTRAP_KEY_ID = "env";
+const BOOTSTRAP_IDENTITY: AdminIdentity = { keyId: BOOTSTRAP_KEY_ID, name: "ADMIN_API_KEY", role: "admin" };
+
+async function getKeys() {
+  const db = await getDb();
+  return db.collection<AdminKey>(KEYS_COLLECTION);
+}
+
+async function getAuditLog() {
+  const db = await getDb();
+  return db.collection<AuditEntry>(AUDIT_COLLECTION);
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Create indexes (call once on startup) and warn when there is no way in
+export async function initAdminKeys() {
+  const keys = await getKeys();
+  await keys.createIndex({ keyHash: 1 }, { unique: true });
+  await keys.createIndex({ id: 1 }, { unique: true });
+  const audit = await getAuditLog();
+  await audit.createIndex({ at: -1 });
+  await audit.createIndex({ actor: 1, at: -1 });
+
+  if (!ADMIN_API_KEY) {
+    const active = await keys.countDocuments({ revokedAt: { $exists: false } });
+    if (active === 0) {
+      logger.warn("No admin keys configured: set ADMIN_API_KEY to create the first one");
+    } else {
+      logger.info("ADMIN_API_KEY not set, only stored admin keys are accepted");
+    }
+  }
+  logger.info("Admin key store initialized with indexes");
+}
+
+export function roleAllows(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+// Resolve a presented key to the identity it belongs to, or null if unknown or revoked
+export async function authenticateAdminKey(key: string): Promise<AdminIdentity | null> {
+  const keyHash = hashKey(key);
+
+  if (ADMIN_API_KEY) {
+    const expected = Buffer.from(hashKey(ADMIN_API_KEY), "hex");
+    if (timingSafeEqual(Buffer.from(keyHash, "hex"), expected)) {
+      return BOOTSTRAP_IDENTITY;
+    }
+  }
+
+  const keys = await getKeys();
+  const stored = await keys.findOne({ keyHash, revokedAt: { $exists: false } });
+  if (!stored) {
+    return null;
+  }
+
+  keys.updateOne({ id: stored.id }, { $set: { lastUsedAt: new Date() } }).catch((error) => {
+    logger.warn("Failed to record admin key use", { keyId: stored.id, error: error.message });
+  });
+  return { keyId: stored.id, name: stored.name, role: stored.role };
+}
+
+// Create a key; the plaintext is only ever returned here
+export async function createAdminKey(
+  name: string,
+  role: AdminRole,
+  createdBy: string
+): Promise<{ key: string; record: Omit<AdminKey, "keyHash"> }> {
+  const keys = await getKeys();
+  const key = `ppk_${randomBytes(24).toString("hex")}`;
+  const record: AdminKey = {
+    id: randomBytes(8).toString("hex"),
+    name,
+    role,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, 12),
+    createdAt: new Date(),
+    createdBy
+  };
+
+  await keys.insertOne({ ...record });
+  logger.info("Admin key created", { keyId: record.id, name, role, createdBy });
+
+  const { keyHash, ...visible } = record;
+  return { key, record: visible };
+}
+
+export async function listAdminKeys(): Promise<Omit<AdminKey, "keyHash">[]> {
+  const keys = await getKeys();
+  return keys
+    .find({}, { projection: { _id: 0, keyHash: 0 } })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+// Revoke a key by id; false if there is no such active key
+export async function revokeAdminKey(id: string, revokedBy: string): Promise<boolean> {
+  const keys = await getKeys();
+  const result = await keys.updateOne(
+    { id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  if (result.matchedCount === 0) {
+    return false;
+  }
+  logger.info("Admin key revoked", { keyId: id, revokedBy });
+  return true;
+}
+
+// Append to the audit log. Failures are logged, never surfaced to the caller.
+export async function recordAudit(entry: AuditEntry) {
+  try {
+    const audit = await getAuditLog();
+    await audit.insertOne({ ...entry });
+  } catch (error) {
+    logger.error("Failed to write audit log entry", {
+      actor: entry.actor,
+      route: entry.route,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export type AuditQuery = {
+  actor?: string;
+  route?: string;
+  from?: Date;
+  to?: Date;
+};
+
+// Most recent entries first
+export async function listAuditLog(query: AuditQuery, limit: number): Promise<AuditEntry[]> {
+  const audit = await getAuditLog();
+  const filter: Record<string, unknown> = {};
+  if (query.actor) {
+    filter.actor = query.actor;
+  }
+  if (query.route) {
+    filter.route = query.route;
+  }
+  if (query.from || query.to) {
+    filter.at = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {})
+    };
+  }
+  return audit
+    .find(filter, { projection: { _id: 0 } })
+    .sort({ at: -1 })
+    .limit(limit)
+    .toArray();
+}
@@ -0,0 +1,232 @@
+import { PaymentEvent } from "./types";
+
+const BUCKET_MS = 1000;
+
+// Window sizes we report, both sliding (ending now) and tumbling (aligned to the clock)
+export const WINDOWS = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000
+} as const;
+
+type WindowName = keyof typeof WINDOWS;
+
+// Keep two of the largest window so the previous tumbling hour is still complete
+const RETENTION_MS = 2 * WINDOWS["1h"];
+
+export type AggregateStats = {
+  events: number;
+  payments: number;
+  // Captured volume summed across currencies, in the FX base currency
+  normalizedCapturedVolume: number;
+  byStatus: Record<string, number>;
+  byCountry: Record<string, { payments: number; capturedVolume: number; normalizedCapturedVolume: number }>;
+  byPaymentMethod: Record<string, { captured: number; failed: number; successRate: number | null }>;
+  byCurrency: Record<string, { payments: number; capturedVolume: number; refundedVolume: number }>;
+};
+
+export type AggregateSnapshot = {
+  asOf: string | null;
+  windows: Record<WindowName, {
+    sliding: AggregateStats;
+    tumbling: {
+      current: AggregateStats & { start: string; end: string };
+      previous: AggregateStats & { start: string; end: string };
+    };
+  }>;
+};
+
+// Per-second partial counts; windows are built by merging buckets
+type Bucket = {
+  events: number;
+  payments: number;
+  normalizedCaptured: number;
+  byStatus: Map<string, number>;
+  countryPayments: Map<string, number>;
+  countryCaptured: Map<string, number>;
+  countryNormalizedCaptured: Map<string, number>;
+  methodCaptured: Map<string, number>;
+  methodFailed: Map<string, number>;
+  currencyPayments: Map<string, number>;
+  currencyCaptured: Map<string, number>;
+  currencyRefunded: Map<string, number>;
+};
+
+// Windows run on event time: "now" is the latest event timestamp seen, so seeded streams
+// on a virtual clock aggregate the same way as live ones.
+type Aggregator = {
+  buckets: Map<number, Bucket>;
+  watermark: number | null;
+};
+
+const aggregators = new Map<string, Aggregator>();
+
+const FAILED_STATUSES = ["declined", "timed_out"];
+
+function emptyBucket(): Bucket {
+  return {
+    events: 0,
+    payments: 0,
+    normalizedCaptured: 0,
+    byStatus: new Map(),
+    countryPayments: new Map(),
+    countryCaptured: new Map(),
+    countryNormalizedCaptured: new Map(),
+    methodCaptured: new Map(),
+    methodFailed: new Map(),
+    currencyPayments: new Map(),
+    currencyCaptured: new Map(),
+    currencyRefunded: new Map()
+  };
+}
+
+function add(map: Map<string, number>, key: string, amount: number) {
+  map.set(key, (map.get(key) ?? 0) + amount);
+}
+
+function round(amount: number) {
+  return Number(amount.toFixed(2));
+}
+
+// Count an event generated for a session
+export function recordAggregateEvent(email: string, event: PaymentEvent) {
+  let aggregator = aggregators.get(email);
+  if (!aggregator) {
+    aggregator = { buckets: new Map(), watermark: null };
+    aggregators.set(email, aggregator);
+  }
+
+  const at = Date.parse(event.timestamp);
+  aggregator.watermark = Math.max(aggregator.watermark ?? at, at);
+
+  // Late events older than anything we still report are dropped
+  if (at < aggregator.watermark - RETENTION_MS) {
+    return;
+  }
+
+  const key = Math.floor(at / BUCKET_MS);
+  let bucket = aggregator.buckets.get(key);
+  if (!bucket) {
+    bucket = emptyBucket();
+    aggregator.buckets.set(key, bucket);
+    pruneBuckets(aggregator);
+  }
+
+  bucket.events++;
+  add(bucket.byStatus, event.status, 1);
+
+  if (event.status === "initiated") {
+    bucket.payments++;
+    add(bucket.countryPayments, event.country, 1);
+    add(bucket.currencyPayments, event.currency, 1);
+  } else if (event.status === "captured") {
+    bucket.normalizedCaptured += event.normalizedAmount;
+    add(bucket.countryCaptured, event.country, event.amount);
+    add(bucket.countryNormalizedCaptured, event.country, event.normalizedAmount);
+    add(bucket.methodCaptured, event.paymentMethod, 1);
+    add(bucket.currencyCaptured, event.currency, event.amount);
+  } else if (event.status === "refunded") {
+    add(bucket.currencyRefunded, event.currency, event.amount);
+  } else if (FAILED_STATUSES.includes(event.status)) {
+    add(bucket.methodFailed, event.paymentMethod, 1);
+  }
+}
+
+function pruneBuckets(aggregator: Aggregator) {
+  const oldest = Math.floor((aggregator.watermark! - RETENTION_MS) / BUCKET_MS);
+  for (const key of aggregator.buckets.keys()) {
+    if (key < oldest) {
+      aggregator.buckets.delete(key);
+    }
+  }
+}
+
+// Merge the buckets covering [start, end) into window stats
+function statsBetween(aggregator: Aggregator, start: number, end: number): AggregateStats {
+  const merged = emptyBucket();
+  const first = Math.floor(start / BUCKET_MS);
+  const last = Math.ceil(end / BUCKET_MS);
+
+  for (const [key, bucket] of aggregator.buckets) {
+    if (key < first || key >= last) {
+      continue;
+    }
+    merged.events += bucket.events;
+    merged.payments += bucket.payments;
+    merged.normalizedCaptured += bucket.normalizedCaptured;
+    for (const [field, map] of Object.entries(bucket) as [keyof Bucket, unknown][]) {
+      if (map instanceof Map) {
+        map.forEach((value, k) => add(merged[field] as Map<string, number>, k, value));
+      }
+    }
+  }
+
+  const countries = new Set([...merged.countryPayments.keys(), ...merged.countryCaptured.keys()]);
+  const methods = new Set([...merged.methodCaptured.keys(), ...merged.methodFailed.keys()]);
+  const currencies = new Set([
+    ...merged.currencyPayments.keys(),
+    ...merged.currencyCaptured.keys(),
+    ...merged.currencyRefunded.keys()
+  ]);
+
+  return {
+    events: merged.events,
+    payments: merged.payments,
+    normalizedCapturedVolume: round(merged.normalizedCaptured),
+    byStatus: Object.fromEntries(merged.byStatus),
+    byCountry: Object.fromEntries([...countries].map(country => [country, {
+      payments: merged.countryPayments.get(country) ?? 0,
+      capturedVolume: round(merged.countryCaptured.get(country) ?? 0),
+      normalizedCapturedVolume: round(merged.countryNormalizedCaptured.get(country) ?? 0)
+    }])),
+    byPaymentMethod: Object.fromEntries([...methods].map(method => {
+      const captured = merged.methodCaptured.get(method) ?? 0;
+      const failed = merged.methodFailed.get(method) ?? 0;
+      return [method, {
+        captured,
+        failed,
+        successRate: captured + failed > 0 ? Number((captured / (captured + failed)).toFixed(4)) : null
+      }];
+    })),
+    byCurrency: Object.fromEntries([...currencies].map(currency => [currency, {
+      payments: merged.currencyPayments.get(currency) ?? 0,
+      capturedVolume: round(merged.currencyCaptured.get(currency) ?? 0),
+      refundedVolume: round(merged.currencyRefunded.get(currency) ?? 0)
+    }]))
+  };
+}
+
+function tumblingWindow(aggregator: Aggregator, start: number, size: number) {
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(start + size).toISOString(),
+    ...statsBetween(aggregator, start, start + size)
+  };
+}
+
+// Sliding and tumbling stats for every window size, as of the latest event
+export function aggregateSnapshot(email: string): AggregateSnapshot {
+  const aggregator = aggregators.get(email) ?? { buckets: new Map(), watermark: null };
+  const now = aggregator.watermark ?? Date.now();
+
+  const windows = {} as AggregateSnapshot["windows"];
+  for (const [name, size] of Object.entries(WINDOWS) as [WindowName, number][]) {
+    const currentStart = Math.floor(now / size) * size;
+    windows[name] = {
+      sliding: statsBetween(aggregator, now - size + 1, now + 1),
+      tumbling: {
+        current: tumblingWindow(aggregator, currentStart, size),
+        previous: tumblingWindow(aggregator, currentStart - size, size)
+      }
+    };
+  }
+
+  return {
+    asOf: aggregator.watermark !== null ? new Date(aggregator.watermark).toISOString() : null,
+    windows
+  };
+}
+
+export function clearAggregates(email: string) {
+  aggregators.delete(email);
+}
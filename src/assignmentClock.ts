@@ -0,0 +1,157 @@
+import { ClockAction, ClockAdjustment, Session } from "./types";
+import { getDb } from "./db";
+import { effectiveEndsAt, getSession, remainingMs, setSessionClock } from "./sessionStore";
+import logger from "./logger";
+
+// The session document is the one clock: /time-remaining, the streams and expiry all read
+// it. Every change here is mirrored onto the assignment record and written to the history.
+
+const ADJUSTMENTS_COLLECTION = "clock_adjustments";
+const MAX_EXTENSION_MINUTES = 24 * 60;
+
+export type ClockResult =
+  | { ok: true; session: Session }
+  | { ok: false; status: number; error: string };
+
+async function getAdjustments() {
+  const db = await getDb();
+  return db.collection<ClockAdjustment>(ADJUSTMENTS_COLLECTION);
+}
+
+// Create indexes (call once on startup)
+export async function initAssignmentClock() {
+  const collection = await getAdjustments();
+  await collection.createIndex({ email: 1, at: -1 });
+  logger.info("Assignment clock initialized with indexes");
+}
+
+// Clock state as reported to candidates and admins
+export function describeClock(session: Session, now = Date.now()) {
+  return {
+    endsAt: new Date(effectiveEndsAt(session, now)).toISOString(),
+    remainingSeconds: Math.floor(remainingMs(session, now) / 1000),
+    paused: session.pausedAt !== undefined,
+    pausedAt: session.pausedAt !== undefined ? new Date(session.pausedAt).toISOString() : undefined
+  };
+}
+
+// Keep the assignment record in step with the session (eval sessions have none; that's fine)
+async function mirrorToAssignment(email: string, endsAt: number, pausedAt: number | null) {
+  const db = await getDb();
+  await db.collection("assignments").updateOne(
+    { email },
+    pausedAt !== null
+      ? { $set: { endsAt: new Date(endsAt), pausedAt: new Date(pausedAt) } }
+      : { $set: { endsAt: new Date(endsAt) }, $unset: { pausedAt: "" } }
+  );
+}
+
+async function recordAdjustment(
+  email: string,
+  action: ClockAction,
+  by: string,
+  endsAtBefore: number,
+  endsAtAfter: number,
+  details: { minutes?: number; reason?: string } = {}
+) {
+  const collection = await getAdjustments();
+  await collection.insertOne({
+    email,
+    at: new Date(),
+    action,
+    ...details,
+    by,
+    endsAtBefore: new Date(endsAtBefore),
+    endsAtAfter: new Date(endsAtAfter)
+  });
+  logger.info("Assignment clock adjusted", { email, action, by, ...details, endsAt: new Date(endsAtAfter).toISOString() });
+}
+
+async function activeSession(email: string): Promise<ClockResult> {
+  const session = await getSession(email);
+  if (!session) {
+    return { ok: false, status: 404, error: "Session not found" };
+  }
+  if (!session.isActive) {
+    return { ok: false, status: 409, error: "Session is not active. Use /admin/resume to reopen it." };
+  }
+  return { ok: true, session };
+}
+
+// Stop the clock; the time left is kept until resumeClock
+export async function pauseClock(email: string, by: string, reason?: string): Promise<ClockResult> {
+  const found = await activeSession(email);
+  if (!found.ok) {
+    return found;
+  }
+  const { session } = found;
+  if (session.pausedAt !== undefined) {
+    return { ok: false, status: 409, error: "Clock is already paused" };
+  }
+
+  const now = Date.now();
+  const updated = await setSessionClock(email, session.endsAt, now);
+  await mirrorToAssignment(email, session.endsAt, now);
+  await recordAdjustment(email, "pause", by, session.endsAt, session.endsAt, { reason });
+  return { ok: true, session: updated };
+}
+
+// Restart the clock, moving endsAt back by however long it was paused
+export async function resumeClock(email: string, by: string, reason?: string): Promise<ClockResult> {
+  const found = await activeSession(email);
+  if (!found.ok) {
+    return found;
+  }
+  const { session } = found;
+  if (session.pausedAt === undefined) {
+    return { ok: false, status: 409, error: "Clock is not paused" };
+  }
+
+  const endsAt = effectiveEndsAt(session);
+  const pausedMinutes = Math.round((Date.now() - session.pausedAt) / 60000);
+  const updated = await setSessionClock(email, endsAt, null);
+  await mirrorToAssignment(email, endsAt, null);
+  await recordAdjustment(email, "resume", by, session.endsAt, endsAt, { minutes: pausedMinutes, reason });
+  return { ok: true, session: updated };
+}
+
+// Grant extra time, e.g. 30 minutes after a server outage
+export async function extendClock(email: string, minutes: number, by: string, reason?: string): Promise<ClockResult> {
+  if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_EXTENSION_MINUTES) {
+    return { ok: false, status: 400, error: `minutes must be a number between 1 and ${MAX_EXTENSION_MINUTES}` };
+  }
+
+  const found = await activeSession(email);
+  if (!found.ok) {
+    return found;
+  }
+  const { session } = found;
+
+  const endsAt = session.endsAt + minutes * 60000;
+  const pausedAt = session.pausedAt ?? null;
+  const updated = await setSessionClock(email, endsAt, pausedAt);
+  await mirrorToAssignment(email, endsAt, pausedAt);
+  await recordAdjustment(email, "extend", by, session.endsAt, endsAt, { minutes, reason });
+  return { ok: true, session: updated };
+}
+
+// /admin/resume gave the session a new window; bring the assignment and history along.
+// A completed or expired assignment becomes active again so /stop and the admin views agree
+// with the session.
+export async function recordReopen(email: string, by: string, endsAtBefore: number, session: Session, minutes: number) {
+  const db = await getDb();
+  await db.collection("assignments").updateOne(
+    { email },
+    {
+      $set: { status: "active", endsAt: new Date(session.endsAt) },
+      $unset: { pausedAt: "", endedAt: "", expiredAt: "" }
+    }
+  );
+  await recordAdjustment(email, "reopen", by, endsAtBefore, session.endsAt, { minutes });
+}
+
+// Every adjustment for a session, oldest first
+export async function clockHistory(email: string): Promise<ClockAdjustment[]> {
+  const collection = await getAdjustments();
+  return collection.find({ email }, { projection: { _id: 0 } }).sort({ at: 1 }).toArray();
+}
@@ -0,0 +1,205 @@
+import { ControlEvent, SlowConsumerPolicy, StreamFrame } from "./types";
+import { slowConsumerDisconnects, slowConsumerFrames } from "./metrics";
+import logger from "./logger";
+
+// What to do with frames while a connection can't keep up:
+//   drop_oldest  queue up to the limit, dropping the oldest payments (then report how many)
+//   coalesce     fold queued payments into one summary frame
+//   disconnect   close the connection with a slow_consumer event once the queue is full
+
+export const SLOW_CONSUMER_POLICIES: SlowConsumerPolicy[] = ["drop_oldest", "coalesce", "disconnect"];
+
+// Frames held per connection while its transport is congested
+const SLOW_CONSUMER_MAX_PENDING = Number(process.env.SLOW_CONSUMER_MAX_PENDING) || 200;
+// How long a disconnected slow consumer gets to read its slow_consumer frame before the
+// connection is dropped outright
+const SLOW_CONSUMER_CLOSE_TIMEOUT_MS = 5000;
+
+// Policy from a query parameter; drop_oldest when absent, null when invalid
+export function parseSlowConsumerPolicy(value: unknown): SlowConsumerPolicy | null {
+  if (value === undefined || value === null || value === "") {
+    return "drop_oldest";
+  }
+  return SLOW_CONSUMER_POLICIES.includes(value as SlowConsumerPolicy) ? value as SlowConsumerPolicy : null;
+}
+
+// Raw transport under a sink: an SSE response or a WebSocket
+export type FrameWriter = {
+  // Write one frame; false once the transport is over its buffer limit
+  write(frame: StreamFrame): boolean;
+  // Called once when the transport can take more
+  onDrain(callback: () => void): void;
+  // Graceful close, after whatever is already buffered
+  close(): void;
+  // Drop the connection now; a stalled client would never read up to a graceful close
+  abort(): void;
+};
+
+export type BackpressureStats = {
+  dropped: number;
+  coalesced: number;
+  disconnects: number;
+};
+
+// Summary standing in for payments folded together under the coalesce policy
+type Coalesced = Omit<Extract<ControlEvent, { type: "coalesced" }>, "type">;
+
+type Pending = { frame: StreamFrame } | { summary: Coalesced };
+
+// Totals per session, across all of its connections
+const sessionStats = new Map<string, BackpressureStats>();
+
+function statsFor(email: string): BackpressureStats {
+  let stats = sessionStats.get(email);
+  if (!stats) {
+    stats = { dropped: 0, coalesced: 0, disconnects: 0 };
+    sessionStats.set(email, stats);
+  }
+  return stats;
+}
+
+export function backpressureStats(email: string): BackpressureStats {
+  return { ...statsFor(email) };
+}
+
+export function clearBackpressureStats(email: string) {
+  sessionStats.delete(email);
+}
+
+function controlFrame(event: ControlEvent, id?: number): StreamFrame {
+  return { kind: "control", id, data: JSON.stringify(event) };
+}
+
+function coalescedFrame(summary: Coalesced): StreamFrame {
+  // The buffer still holds the folded payments: resume from fromId - 1 to get them one by one
+  return controlFrame({
+    type: "coalesced",
+    ...summary,
+    normalizedAmount: Math.round(summary.normalizedAmount * 100) / 100
+  }, summary.toId);
+}
+
+// Wrap a transport so frames stop piling up in Node's buffers when the client is slow.
+// Frames pass straight through until a write reports congestion, then queue (per the
+// policy) until the transport drains.
+export function backpressureSink(
+  writer: FrameWriter,
+  policy: SlowConsumerPolicy,
+  email: string,
+  transport: "sse" | "ws" | "demo"
+) {
+  const stats = statsFor(email);
+  const pending: Pending[] = [];
+  let congested = false;
+  let closed = false;
+  let droppedSinceDrain = 0;
+  let dropped = 0;
+
+  const write = (frame: StreamFrame) => {
+    if (!writer.write(frame) && !congested) {
+      congested = true;
+      writer.onDrain(drain);
+    }
+  };
+
+  const drain = () => {
+    congested = false;
+    if (closed) {
+      return;
+    }
+    if (droppedSinceDrain > 0) {
+      write(controlFrame({ type: "events_dropped", count: droppedSinceDrain }));
+      droppedSinceDrain = 0;
+    }
+    while (pending.length > 0 && !congested) {
+      const next = pending.shift()!;
+      write("frame" in next ? next.frame : coalescedFrame(next.summary));
+    }
+  };
+
+  const dropOldestPayment = () => {
+    const index = pending.findIndex(p => "frame" in p && p.frame.kind === "payment");
+    if (index === -1) {
+      return false;
+    }
+    pending.splice(index, 1);
+    droppedSinceDrain++;
+    dropped++;
+    stats.dropped++;
+    slowConsumerFrames.inc({ transport, outcome: "dropped" });
+    return true;
+  };
+
+  const disconnect = () => {
+    const lost = pending.filter(p => "frame" in p && p.frame.kind === "payment").length;
+    closed = true;
+    stats.disconnects++;
+    stats.dropped += lost;
+    dropped += lost;
+    slowConsumerDisconnects.inc({ transport });
+    slowConsumerFrames.inc({ transport, outcome: "dropped" }, lost);
+    logger.warn("Slow consumer disconnected", { email, transport, dropped: lost });
+    pending.length = 0;
+    // Close behind the slow_consumer frame so a client that catches up still reads why;
+    // one that never does is dropped once the timeout runs out
+    writer.write(controlFrame({ type: "slow_consumer", policy }));
+    writer.close();
+    setTimeout(() => writer.abort(), SLOW_CONSUMER_CLOSE_TIMEOUT_MS).unref();
+  };
+
+  const enqueue = (frame: StreamFrame) => {
+    if (policy === "coalesce" && frame.kind === "payment") {
+      const event = JSON.parse(frame.data);
+      const last = pending[pending.length - 1];
+      const summary: Coalesced = last && "summary" in last
+        ? last.summary
+        : { count: 0, byStatus: {}, normalizedAmount: 0 };
+      if (!(last && "summary" in last)) {
+        pending.push({ summary });
+      }
+      summary.count++;
+      summary.fromId ??= frame.id;
+      summary.toId = frame.id;
+      if (event.status) {
+        summary.byStatus[event.status] = (summary.byStatus[event.status] ?? 0) + 1;
+      }
+      summary.normalizedAmount += typeof event.normalizedAmount === "number" ? event.normalizedAmount : 0;
+      stats.coalesced++;
+      slowConsumerFrames.inc({ transport, outcome: "coalesced" });
+      return;
+    }
+
+    pending.push({ frame });
+    if (pending.length <= SLOW_CONSUMER_MAX_PENDING) {
+      return;
+    }
+    if (policy === "disconnect") {
+      return disconnect();
+    }
+    // Control frames are never dropped; with none but control frames queued, let it grow
+    dropOldestPayment();
+  };
+
+  return {
+    send(frame: StreamFrame) {
+      if (closed) {
+        return;
+      }
+      if (congested || pending.length > 0) {
+        return enqueue(frame);
+      }
+      write(frame);
+    },
+    end() {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      // Flush what's queued (bounded by the pending limit) so the client sees session_ended
+      pending.forEach(p => writer.write("frame" in p ? p.frame : coalescedFrame(p.summary)));
+      pending.length = 0;
+      writer.close();
+    },
+    dropped: () => dropped
+  };
+}
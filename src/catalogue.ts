@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { Catalogue, CatalogueCountry, Merchant, PaymentMethod } from "./types";
+import { getDb } from "./db";
+import { hasRate } from "./fx";
+import { Rng, weightedItem, randomItem, isValidTimezone, isRecord } from "./utils";
+import logger from "./logger";
+
+const CATALOGUE_FILE = path.resolve(process.env.CATALOGUE_FILE || "config/catalogue.json");
+const COLLECTION_NAME = "catalogue";
+// The catalogue collection holds a single document: the admin-uploaded override
+const ACTIVE_ID = "active";
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  "CARD",
+  "APPLE_PAY",
+  "GOOGLE_PAY",
+  "KLARNA",
+  "AFTERPAY",
+  "PAYPAL",
+  "CARD_INSTALLMENT"
+];
+
+type StoredCatalogue = {
+  _id: string;
+  catalogue: Catalogue;
+  updatedAt: Date;
+};
+
+let catalogue: Catalogue = loadCatalogueFile();
+let catalogueSource: "file" | "admin" = "file";
+
+async function getCollection() {
+  const db = await getDb();
+  return db.collection<StoredCatalogue>(COLLECTION_NAME);
+}
+
+// Validate a catalogue document. Returns a list of problems (empty when valid).
+export function validateCatalogue(doc: unknown): string[] {
+  const errors: string[] = [];
+
+  const countries: unknown[] | undefined = isRecord(doc) && Array.isArray(doc.countries) ? doc.countries : undefined;
+  if (!isRecord(doc) || !countries || countries.length === 0) {
+    return ["catalogue must be an object with a non-empty countries array"];
+  }
+
+  const codes = new Set<string>();
+  countries.forEach((value, i) => {
+    const at = `countries[${i}]`;
+    const c = isRecord(value) ? value : {};
+    if (typeof c.code !== "string" || !/^[A-Z]{2}$/.test(c.code)) {
+      errors.push(`${at}.code must be an ISO 3166-1 alpha-2 code (e.g. "DE")`);
+    } else if (codes.has(c.code)) {
+      errors.push(`${at}.code "${c.code}" is listed more than once`);
+    } else {
+      codes.add(c.code);
+    }
+    if (typeof c.name !== "string" || c.name.length === 0) {
+      errors.push(`${at}.name must be a non-empty string`);
+    }
+    if (typeof c.currency !== "string" || !hasRate(c.currency)) {
+      errors.push(`${at}.currency must be a currency with an FX rate`);
+    }
+    if (typeof c.timezone !== "string" || !isValidTimezone(c.timezone)) {
+      errors.push(`${at}.timezone must be an IANA timezone (e.g. "Europe/Berlin")`);
+    }
+    if (typeof c.weight !== "number" || !(c.weight > 0)) {
+      errors.push(`${at}.weight must be a positive number`);
+    }
+    if (c.diurnalCurve !== undefined) {
+      const curve: unknown[] | undefined = Array.isArray(c.diurnalCurve) ? c.diurnalCurve : undefined;
+      if (!curve || curve.length !== 24 || curve.some(v => typeof v !== "number" || v < 0)
+        || !curve.some(v => typeof v === "number" && v > 0)) {
+        errors.push(`${at}.diurnalCurve must be 24 non-negative numbers (one per local hour), not all zero`);
+      }
+    }
+
+    const methods = c.paymentMethods;
+    if (!isRecord(methods) || Object.keys(methods).length === 0) {
+      errors.push(`${at}.paymentMethods must map payment methods to weights`);
+    } else {
+      for (const [method, weight] of Object.entries(methods)) {
+        if (!PAYMENT_METHODS.includes(method as PaymentMethod)) {
+          errors.push(`${at}.paymentMethods.${method} is not one of ${PAYMENT_METHODS.join(", ")}`);
+        } else if (typeof weight !== "number" || weight < 0) {
+          errors.push(`${at}.paymentMethods.${method} must be a non-negative number`);
+        }
+      }
+      if (!Object.values(methods).some(w => typeof w === "number" && w > 0)) {
+        errors.push(`${at}.paymentMethods needs at least one method with a positive weight`);
+      }
+    }
+
+    const merchants: unknown[] | undefined = Array.isArray(c.merchants) ? c.merchants : undefined;
+    if (!merchants || merchants.length === 0) {
+      errors.push(`${at}.merchants must be a non-empty array`);
+    } else {
+      merchants.forEach((m, j) => {
+        if (!isRecord(m) || typeof m.id !== "string" || typeof m.name !== "string") {
+          errors.push(`${at}.merchants[${j}] needs string id and name`);
+        }
+      });
+    }
+  });
+
+  if (typeof doc.defaultFocusCountry !== "string" || !codes.has(doc.defaultFocusCountry)) {
+    errors.push("defaultFocusCountry must be the code of a listed country");
+  }
+
+  return errors;
+}
+
+// Keep only the fields we use, so arbitrary extra keys in an upload are dropped
+function normalizeCatalogue(doc: Catalogue): Catalogue {
+  return {
+    defaultFocusCountry: doc.defaultFocusCountry,
+    countries: doc.countries.map((c) => ({
+      code: c.code,
+      name: c.name,
+      currency: c.currency,
+      timezone: c.timezone,
+      weight: c.weight,
+      diurnalCurve: c.diurnalCurve ? [...c.diurnalCurve] : undefined,
+      paymentMethods: { ...c.paymentMethods },
+      merchants: c.merchants.map((m) => ({ id: m.id, name: m.name, category: m.category }))
+    }))
+  };
+}
+
+// Parse a catalogue file; .yaml/.yml files are read as YAML, anything else as JSON
+export function parseCatalogueText(text: string, format: "json" | "yaml"): unknown {
+  return format === "yaml" ? YAML.parse(text) : JSON.parse(text);
+}
+
+function loadCatalogueFile(): Catalogue {
+  const format = /\.ya?ml$/i.test(CATALOGUE_FILE) ? "yaml" : "json";
+  const doc = parseCatalogueText(fs.readFileSync(CATALOGUE_FILE, "utf8"), format);
+  const errors = validateCatalogue(doc);
+  if (errors.length > 0) {
+    logger.error("Invalid catalogue file", { file: CATALOGUE_FILE, errors });
+    throw new Error(`Invalid catalogue in ${CATALOGUE_FILE}: ${errors.join("; ")}`);
+  }
+  return normalizeCatalogue(doc as Catalogue);
+}
+
+// Load the admin override from Mongo if one was uploaded (call once on startup)
+export async function initCatalogue() {
+  const collection = await getCollection();
+  const stored = await collection.findOne({ _id: ACTIVE_ID });
+
+  if (stored && validateCatalogue(stored.catalogue).length === 0) {
+    catalogue = stored.catalogue;
+    catalogueSource = "admin";
+  } else if (stored) {
+    logger.warn("Stored catalogue is no longer valid, using file", { file: CATALOGUE_FILE });
+  }
+
+  logger.info("Catalogue initialized", {
+    source: catalogueSource,
+    countries: catalogue.countries.length,
+    updatedAt: stored?.updatedAt
+  });
+}
+
+export function getCatalogue(): { source: "file" | "admin"; catalogue: Catalogue } {
+  return { source: catalogueSource, catalogue };
+}
+
+// Replace the active catalogue (admin). Validate with validateCatalogue first.
+export async function replaceCatalogue(doc: Catalogue): Promise<Catalogue> {
+  const next = normalizeCatalogue(doc);
+  const collection = await getCollection();
+  await collection.replaceOne(
+    { _id: ACTIVE_ID },
+    { catalogue: next, updatedAt: new Date() },
+    { upsert: true }
+  );
+
+  catalogue = next;
+  catalogueSource = "admin";
+  logger.info("Catalogue replaced (admin)", { countries: next.countries.length });
+  return next;
+}
+
+// Drop the admin override and go back to the catalogue file
+export async function resetCatalogue(): Promise<Catalogue> {
+  const collection = await getCollection();
+  await collection.deleteOne({ _id: ACTIVE_ID });
+
+  catalogue = loadCatalogueFile();
+  catalogueSource = "file";
+  logger.info("Catalogue reset to file (admin)", { file: CATALOGUE_FILE });
+  return catalogue;
+}
+
+export function findCountry(code: string | undefined): CatalogueCountry | undefined {
+  return code ? catalogue.countries.find(c => c.code === code) : undefined;
+}
+
+// The country country_focus targets: the requested one, or the catalogue default
+export function focusCountryFor(code: string | undefined): CatalogueCountry {
+  return findCountry(code) ?? findCountry(catalogue.defaultFocusCountry)!;
+}
+
+export function pickPaymentMethod(country: CatalogueCountry, rng: Rng): PaymentMethod {
+  const methods = Object.entries(country.paymentMethods) as [PaymentMethod, number][];
+  return weightedItem(methods, ([, weight]) => weight, rng)[0];
+}
+
+export function pickMerchant(country: CatalogueCountry, rng: Rng): Merchant {
+  return randomItem(country.merchants, rng);
+}
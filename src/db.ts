@@ -1,9 +1,34 @@
 import { MongoClient, Db } from "mongodb";
 import logger from "./logger";
+import { mongoCommandDuration, mongoCommandErrors } from "./metrics";
 
 let client: MongoClient | null = null;
 let db: Db | null = null;
 
+// Collection each in-flight command targets, keyed by request id (the completion events don't carry it)
+const commandCollections = new Map<number, string>();
+
+// Time every command the driver sends and count the ones that fail
+function monitorCommands(mongo: MongoClient) {
+  mongo.on("commandStarted", (event) => {
+    // { find: "sessions" }, { insert: "event_log" }, ...; getMore names it separately
+    const target = event.command[event.commandName];
+    const collection = typeof target === "string" ? target : event.command.collection;
+    commandCollections.set(event.requestId, typeof collection === "string" ? collection : "");
+  });
+  mongo.on("commandSucceeded", (event) => {
+    const collection = commandCollections.get(event.requestId) ?? "";
+    commandCollections.delete(event.requestId);
+    mongoCommandDuration.observe({ command: event.commandName, collection }, event.duration / 1000);
+  });
+  mongo.on("commandFailed", (event) => {
+    const collection = commandCollections.get(event.requestId) ?? "";
+    commandCollections.delete(event.requestId);
+    mongoCommandDuration.observe({ command: event.commandName, collection }, event.duration / 1000);
+    mongoCommandErrors.inc({ command: event.commandName, collection });
+  });
+}
+
 export async function getDb(): Promise<Db> {
   if (!db) {
     const uri = process.env.MONGO_URI;
@@ -13,7 +38,8 @@ export async function getDb(): Promise<Db> {
     }
     logger.info("Connecting to MongoDB...", { uri: uri.replace(/\/\/[^:]+:[^@]+@/, "//***:***@") });
     try {
-      client = new MongoClient(uri);
+      client = new MongoClient(uri, { monitorCommands: true });
+      monitorCommands(client);
       await client.connect();
       db = client.db("payport");
       logger.info("MongoDB connected successfully", { database: "payport" });
@@ -1,47 +1,321 @@
-import { PaymentEvent, EventMode } from "./types";
-import { countries, randomItem, randomAmount, generateId } from "./utils";
+import { PaymentEvent, PaymentStatus, EventMode, TrafficSettings, Incident } from "./types";
+import { randomItem, randomAmount, generateId, createRng, hashSeed, Rng } from "./utils";
+import { baseCurrency, fromBase, toBase } from "./fx";
+import { focusCountryFor, pickMerchant, pickPaymentMethod } from "./catalogue";
+import { pickActiveCountry, poissonDelay, trafficMultiplier } from "./trafficModel";
+import { cardTesting, forcedDeclineRate, latencyFactor, rateFactor } from "./incidents";
 import logger from "./logger";
 
-const methods = ["CARD", "APPLE_PAY", "GOOGLE_PAY", "KLARNA", "AFTERPAY", "PAYPAL", "CARD_INSTALLMENT"] as const;
 const sources = ["web", "mobile", "api"] as const;
 
-export function intervalForMode(mode: EventMode) {
+export const VALID_MODES = ["normal", "high_traffic", "country_focus", "payment_spike", "chaos"] as const;
+
+// Seeded streams start their virtual clock here unless the caller picks another epoch
+export const SEEDED_EPOCH = Date.parse("2026-01-01T00:00:00.000Z");
+
+export type Clock = {
+  now(): number;
+  advance(ms: number): void;
+};
+
+// How long a payment may sit in "pending" before it times out
+const PENDING_TIMEOUT_MS = 30000;
+
+// A lifecycle transition that has been decided but not yet emitted. occurredAt becomes the
+// event timestamp; deliverAt is when the stream may emit it, later than occurredAt for
+// transitions that arrive late (and so possibly out of order).
+type ScheduledTransition = {
+  payment: Omit<PaymentEvent, "eventId" | "timestamp" | "status">;
+  status: PaymentStatus;
+  occurredAt: number;
+  deliverAt: number;
+};
+
+// How incidents bend the lifecycle of a payment: a forced decline probability and a
+// slowdown factor for authorization
+type TransitionEffects = {
+  declineRate: number | null;
+  latency: number;
+};
+
+// Per-stream generation state: where randomness and timestamps come from, plus the
+// transitions of in-flight payments still waiting to be emitted
+export type EngineContext = {
+  rng: Rng;
+  clock: Clock;
+  seed?: number;
+  pending: ScheduledTransition[];
+};
+
+const wallClock: Clock = {
+  now: () => Date.now(),
+  advance: () => {}
+};
+
+// Unseeded streams use Math.random and wall time. Seeded streams use a PRNG and a
+// virtual clock advanced by the emitted delays, so the same seed replays the exact
+// same events, timestamps included.
+export function createEngineContext(seed?: number, epoch = SEEDED_EPOCH): EngineContext {
+  if (seed === undefined) {
+    return { rng: Math.random, clock: wallClock, pending: [] };
+  }
+
+  let now = epoch;
+  return {
+    seed,
+    rng: createRng(seed),
+    clock: {
+      now: () => now,
+      advance: (ms) => {
+        now += ms;
+      }
+    },
+    pending: []
+  };
+}
+
+// Context for a client-requested stream: any string works as a seed, and epoch (an ISO
+// date) sets where a seeded stream's clock starts. Returns null when the epoch is invalid.
+export function engineContextFor(seed?: string, epoch?: string): EngineContext | null {
+  if (!seed) {
+    return createEngineContext();
+  }
+
+  const start = epoch ? Date.parse(epoch) : SEEDED_EPOCH;
+  if (Number.isNaN(start)) {
+    return null;
+  }
+  return createEngineContext(hashSeed(seed), start);
+}
+
+// Mean gap between events for a mode, at average time-of-day activity
+export function intervalForMode(mode: EventMode, rng: Rng = Math.random) {
   switch (mode) {
     case "high_traffic":
       return 50;
     case "payment_spike":
       return 300;
     case "chaos":
-      return Math.random() > 0.7 ? 50 : 1500;
+      return rng() > 0.7 ? 50 : 1500;
     default:
       return 1000;
   }
 }
 
-export function generatePayment(mode: EventMode): PaymentEvent {
+// Pick the delay before the next event and move the stream clock forward by it.
+// Arrivals are a Poisson process whose rate is the mode's base rate scaled by how busy the
+// countries in play are at their local time. While ramping, the mean is interpolated
+// between the previous mode's interval and this one's.
+export function nextDelay(traffic: TrafficSettings, ctx: EngineContext, incidents: Incident[] = []): number {
+  const { mode, ramp } = traffic;
+  let mean = intervalForMode(mode, ctx.rng);
+  if (ramp) {
+    const from = intervalForMode(ramp.from, ctx.rng);
+    mean = from + (mean - from) * ramp.progress;
+  }
+
+  const countries = mode === "country_focus" ? [focusCountryFor(traffic.country)] : undefined;
+  const multiplier = trafficMultiplier(ctx.clock.now(), countries) * rateFactor(incidents);
+  const delay = poissonDelay(mean / Math.max(multiplier, 0.05), ctx.rng);
+
+  ctx.clock.advance(delay);
+  return delay;
+}
+
+function randomDelay(min: number, max: number, rng: Rng): number {
+  return Math.round(min + rng() * (max - min));
+}
+
+// Decide what happens next to a payment that just reached `status`, and after how long.
+// Returns null once the payment has reached a terminal state.
+function nextTransition(
+  status: PaymentStatus,
+  mode: EventMode,
+  rng: Rng,
+  effects: TransitionEffects
+): { status: PaymentStatus; delay: number } | null {
+  const declineRate = effects.declineRate ?? (mode === "chaos" ? 0.2 : 0.05);
+  const pendingRate = Math.min(0.5, 0.08 * effects.latency);
+
+  switch (status) {
+    case "initiated": {
+      const roll = rng();
+      if (roll < declineRate) {
+        return { status: "declined", delay: randomDelay(300, 2000, rng) };
+      }
+      if (roll < declineRate + pendingRate) {
+        return { status: "pending", delay: randomDelay(500, 2000, rng) };
+      }
+      return { status: "authorized", delay: Math.round(randomDelay(300, 2500, rng) * effects.latency) };
+    }
+    case "pending":
+      return rng() < 0.6 / effects.latency
+        ? { status: "authorized", delay: Math.min(PENDING_TIMEOUT_MS - 1, Math.round(randomDelay(5000, 20000, rng) * effects.latency)) }
+        : { status: "timed_out", delay: PENDING_TIMEOUT_MS };
+    case "authorized":
+      return { status: "captured", delay: randomDelay(1000, 5000, rng) };
+    case "captured": {
+      const roll = rng();
+      if (roll < 0.03) {
+        return { status: "refunded", delay: randomDelay(20000, 120000, rng) };
+      }
+      if (roll < 0.035) {
+        return { status: "chargeback", delay: randomDelay(60000, 300000, rng) };
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+function scheduleNext(
+  event: PaymentEvent,
+  occurredAt: number,
+  mode: EventMode,
+  ctx: EngineContext,
+  effects: TransitionEffects
+) {
+  const next = nextTransition(event.status, mode, ctx.rng, effects);
+  if (!next) {
+    return;
+  }
+
+  const { eventId, timestamp, status, ...payment } = event;
+  const lateRate = mode === "chaos" ? 0.15 : 0.03;
+  const transitionAt = occurredAt + next.delay;
+  const lateness = ctx.rng() < lateRate ? randomDelay(2000, 10000, ctx.rng) : 0;
+
+  ctx.pending.push({
+    payment,
+    status: next.status,
+    occurredAt: transitionAt,
+    deliverAt: transitionAt + lateness
+  });
+}
+
+// Remove and return the earliest transition that is ready to be delivered, if any
+function takeDueTransition(ctx: EngineContext): ScheduledTransition | null {
+  const now = ctx.clock.now();
+  let dueIndex = -1;
+
+  ctx.pending.forEach((t, i) => {
+    if (t.deliverAt <= now && (dueIndex === -1 || t.deliverAt < ctx.pending[dueIndex].deliverAt)) {
+      dueIndex = i;
+    }
+  });
+
+  return dueIndex === -1 ? null : ctx.pending.splice(dueIndex, 1)[0];
+}
+
+function initiatePayment(mode: EventMode, ctx: EngineContext, focusCountry?: string): PaymentEvent {
+  const { rng } = ctx;
+
   const country =
     mode === "country_focus"
-      ? countries[0]
-      : randomItem(countries);
+      ? focusCountryFor(focusCountry)
+      : pickActiveCountry(ctx.clock.now(), rng);
+  const merchant = pickMerchant(country, rng);
 
   const big =
-    mode === "payment_spike" && Math.random() > 0.85;
-
-  const event: PaymentEvent = {
-    eventId: generateId(),
-    timestamp: new Date().toISOString(),
-    amount: big
-      ? randomAmount(5000, 20000)
-      : randomAmount(),
+    mode === "payment_spike" && rng() > 0.85;
+
+  // Ranges are in the base currency, converted so each currency gets realistic amounts
+  const now = ctx.clock.now();
+  const baseAmount = big
+    ? randomAmount(5000, 20000, rng)
+    : randomAmount(10, 500, rng);
+  const amount = fromBase(baseAmount, country.currency, now);
+
+  return {
+    eventId: generateId("evt", rng),
+    paymentId: generateId("pay", rng),
+    timestamp: new Date(now).toISOString(),
+    amount,
+    currency: country.currency,
+    normalizedAmount: toBase(amount, country.currency, now),
+    normalizedCurrency: baseCurrency(),
+    country: country.code,
+    merchantId: merchant.id,
+    merchantName: merchant.name,
+    paymentMethod: pickPaymentMethod(country, rng),
+    source: randomItem([...sources], rng),
+    status: "initiated"
+  };
+}
+
+// A card-testing attempt: a tiny amount from one source, usually at one merchant
+function cardTestPayment(incident: Incident, ctx: EngineContext): PaymentEvent {
+  const { rng } = ctx;
+  const now = ctx.clock.now();
+  const country = incident.params.country
+    ? focusCountryFor(String(incident.params.country))
+    : pickActiveCountry(now, rng);
+  const merchant = pickMerchant(country, rng);
+  const amount = fromBase(randomAmount(0.5, 2, rng), country.currency, now);
+
+  return {
+    eventId: generateId("evt", rng),
+    paymentId: generateId("pay", rng),
+    timestamp: new Date(now).toISOString(),
+    amount,
     currency: country.currency,
-    country: country.country,
-    paymentMethod: randomItem([...methods]),
-    source: randomItem([...sources]),
-    status: Math.random() > 0.05 ? "success" : "failed"
+    normalizedAmount: toBase(amount, country.currency, now),
+    normalizedCurrency: baseCurrency(),
+    country: country.code,
+    merchantId: merchant.id,
+    merchantName: merchant.name,
+    paymentMethod: "CARD",
+    source: incident.params.source as PaymentEvent["source"],
+    status: "initiated"
   };
+}
+
+// Emit the next event of the stream: a due state transition of an in-flight payment
+// if there is one, otherwise a newly initiated payment. traffic.country is the catalogue
+// code country_focus mode targets (the catalogue default when not given). Active incidents
+// can force declines, slow authorizations or mix in card-testing attempts.
+export function generatePayment(
+  traffic: TrafficSettings,
+  ctx: EngineContext = createEngineContext(),
+  incidents: Incident[] = []
+): PaymentEvent {
+  const { mode } = traffic;
+  const due = takeDueTransition(ctx);
+  const testing = cardTesting(incidents);
+  let isCardTest = false;
+
+  let event: PaymentEvent;
+  let occurredAt: number;
+  if (due) {
+    const { paymentId, ...details } = due.payment;
+    occurredAt = due.occurredAt;
+    event = {
+      eventId: generateId("evt", ctx.rng),
+      paymentId,
+      timestamp: new Date(occurredAt).toISOString(),
+      ...details,
+      status: due.status
+    };
+  } else if (testing && ctx.rng() < Number(testing.params.burstShare)) {
+    occurredAt = ctx.clock.now();
+    event = cardTestPayment(testing, ctx);
+    isCardTest = true;
+  } else {
+    occurredAt = ctx.clock.now();
+    event = initiatePayment(mode, ctx, traffic.country);
+  }
+
+  scheduleNext(event, occurredAt, mode, ctx, {
+    declineRate: isCardTest
+      ? Math.max(0.85, forcedDeclineRate(incidents, event, occurredAt) ?? 0)
+      : forcedDeclineRate(incidents, event, occurredAt),
+    latency: latencyFactor(incidents)
+  });
 
   logger.debug("Payment event generated", { 
     eventId: event.eventId, 
+    paymentId: event.paymentId,
     mode, 
     amount: event.amount, 
     currency: event.currency,
@@ -0,0 +1,165 @@
+import { Document } from "mongodb";
+import { getDb } from "./db";
+import logger from "./logger";
+
+const COLLECTION_NAME = "event_log";
+// The log is a capped collection: once full, the oldest entries are discarded
+const EVENT_LOG_SIZE_MB = Number(process.env.EVENT_LOG_SIZE_MB) || 2048;
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_BATCH_SIZE = 500;
+
+export type EventLogKind = "payment" | "control" | "mode_set" | "subscription";
+
+// One thing a session's stream sent (or an API mode change), in the order it happened.
+// frameId is the SSE/WebSocket id of the frame for entries that were streamed; seq orders
+// entries recorded in the same millisecond that have no frameId.
+// Payments are logged before each connection's filter and projection are applied;
+// "subscription" entries record the filter every connection had (on join, on change and
+// on leave), so what a given dashboard received is the payments that pass its filter.
+export type EventLogEntry = {
+  email: string;
+  kind: EventLogKind;
+  frameId?: number;
+  recordedAt: Date;
+  seq: number;
+  payload: Document;
+};
+
+// Entries are buffered and written in batches so logging never blocks the stream
+let pending: EventLogEntry[] = [];
+let flushTimer: NodeJS.Timeout | null = null;
+let nextSeq = 0;
+
+async function getCollection() {
+  const db = await getDb();
+  return db.collection<EventLogEntry>(COLLECTION_NAME);
+}
+
+// Create the capped collection and indexes (call once on startup)
+export async function initEventLog() {
+  const db = await getDb();
+  const exists = await db.listCollections({ name: COLLECTION_NAME }).hasNext();
+  if (!exists) {
+    await db.createCollection(COLLECTION_NAME, { capped: true, size: EVENT_LOG_SIZE_MB * 1024 * 1024 });
+  }
+
+  const collection = await getCollection();
+  await collection.createIndex({ email: 1, recordedAt: 1, frameId: 1, seq: 1 });
+  logger.info("Event log initialized", { sizeMb: EVENT_LOG_SIZE_MB, created: !exists });
+}
+
+export function logEvent(email: string, kind: EventLogKind, payload: Document, frameId?: number) {
+  pending.push({ email, kind, frameId, recordedAt: new Date(), seq: nextSeq++, payload });
+
+  if (pending.length >= FLUSH_BATCH_SIZE) {
+    void flushEventLog();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushEventLog(), FLUSH_INTERVAL_MS);
+  }
+}
+
+// Write buffered entries now (also called on shutdown)
+export async function flushEventLog() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pending.length === 0) {
+    return;
+  }
+
+  const batch = pending;
+  pending = [];
+  try {
+    const collection = await getCollection();
+    await collection.insertMany(batch, { ordered: true });
+  } catch (error) {
+    logger.error("Event log write failed", {
+      entries: batch.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export type EventLogQuery = {
+  email: string;
+  from?: Date;
+  to?: Date;
+  kind?: EventLogKind;
+};
+
+// Entries of a session in the order they were recorded, as a cursor for streaming exports
+export async function eventLogCursor(query: EventLogQuery, limit?: number) {
+  // Make sure what was just sent is visible before reading
+  await flushEventLog();
+
+  const collection = await getCollection();
+  const filter: Document = { email: query.email };
+  if (query.from || query.to) {
+    filter.recordedAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lt: query.to } : {})
+    };
+  }
+  if (query.kind) {
+    filter.kind = query.kind;
+  }
+
+  // Sorted on the index rather than $natural, which would scan the whole capped collection
+  const cursor = collection
+    .find(filter, { projection: { _id: 0, email: 0, seq: 0 } })
+    .sort({ recordedAt: 1, frameId: 1, seq: 1 });
+  return limit ? cursor.limit(limit) : cursor;
+}
+
+const CSV_COLUMNS = [
+  "recordedAt",
+  "kind",
+  "frameId",
+  "eventId",
+  "paymentId",
+  "timestamp",
+  "status",
+  "amount",
+  "currency",
+  "normalizedAmount",
+  "normalizedCurrency",
+  "country",
+  "merchantId",
+  "merchantName",
+  "paymentMethod",
+  "source",
+  "details"
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvHeader(): string {
+  return CSV_COLUMNS.join(",") + "\n";
+}
+
+// One CSV row: payments fill the payment columns, anything else goes into details as JSON
+export function csvRow(entry: Omit<EventLogEntry, "email">): string {
+  const isPayment = entry.kind === "payment";
+  const cells = CSV_COLUMNS.map(column => {
+    switch (column) {
+      case "recordedAt":
+        return csvCell(entry.recordedAt);
+      case "kind":
+        return csvCell(entry.kind);
+      case "frameId":
+        return csvCell(entry.frameId);
+      case "details":
+        return isPayment ? "" : csvCell(JSON.stringify(entry.payload));
+      default:
+        return isPayment ? csvCell(entry.payload[column]) : "";
+    }
+  });
+  return cells.join(",") + "\n";
+}
@@ -0,0 +1,98 @@
+import { getDb } from "./db";
+import { expireDueSessions } from "./sessionStore";
+import logger from "./logger";
+
+// How often to look for sessions and assignments whose time has run out
+const EXPIRY_SWEEP_INTERVAL_SECONDS = Number(process.env.EXPIRY_SWEEP_INTERVAL_SECONDS) || 15;
+
+export type AssignmentExpiry = {
+  email: string;
+  endsAt: Date;
+  expiredAt: Date;
+};
+
+type ExpiryHook = (expiry: AssignmentExpiry) => void | Promise<void>;
+
+const hooks: ExpiryHook[] = [];
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+// Run a callback for every assignment the sweeper expires (once, on whichever instance won).
+// External notifications go through the assignment.expired webhook.
+export function onAssignmentExpired(hook: ExpiryHook) {
+  hooks.push(hook);
+}
+
+async function notify(expiry: AssignmentExpiry) {
+  for (const hook of hooks) {
+    try {
+      await hook(expiry);
+    } catch (error) {
+      logger.error("Assignment expiry hook failed", {
+        email: expiry.email,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// Move active assignments past their endsAt to "expired" (distinct from "completed", which
+// means the candidate called /stop). Paused assignments are left alone.
+async function expireDueAssignments(now: Date): Promise<AssignmentExpiry[]> {
+  const db = await getDb();
+  const assignments = db.collection("assignments");
+  const due = { status: "active", pausedAt: { $exists: false }, endsAt: { $lte: now } };
+
+  const expired: AssignmentExpiry[] = [];
+  for (const assignment of await assignments.find(due).toArray()) {
+    const result = await assignments.updateOne(
+      { _id: assignment._id, ...due },
+      { $set: { status: "expired", expiredAt: now } }
+    );
+    if (result.modifiedCount > 0) {
+      logger.info("Assignment expired", { email: assignment.email, endsAt: assignment.endsAt });
+      expired.push({ email: assignment.email, endsAt: assignment.endsAt, expiredAt: now });
+    }
+  }
+  return expired;
+}
+
+// One pass: expire sessions (which closes their streams with session_ended), then
+// finalize the matching assignments and fire the hooks
+export async function sweepExpired() {
+  if (sweeping) {
+    return;
+  }
+  sweeping = true;
+  try {
+    const now = new Date();
+    const sessions = await expireDueSessions(now.getTime());
+    const assignments = await expireDueAssignments(now);
+    if (sessions.length > 0 || assignments.length > 0) {
+      logger.info("Expiry sweep finished", { sessions: sessions.length, assignments: assignments.length });
+    }
+    for (const expiry of assignments) {
+      await notify(expiry);
+    }
+  } catch (error) {
+    logger.error("Expiry sweep failed", { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    sweeping = false;
+  }
+}
+
+export function startExpirySweeper() {
+  if (sweepTimer) {
+    return;
+  }
+  sweepTimer = setInterval(sweepExpired, EXPIRY_SWEEP_INTERVAL_SECONDS * 1000);
+  logger.info("Expiry sweeper started", { intervalSeconds: EXPIRY_SWEEP_INTERVAL_SECONDS });
+  sweepExpired();
+}
+
+export function stopExpirySweeper() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
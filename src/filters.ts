@@ -0,0 +1,140 @@
+import { PaymentEvent } from "./types";
+import { isRecord } from "./utils";
+
+const FILTER_FIELDS = ["country", "merchantId", "currency", "paymentMethod", "source", "status"] as const;
+
+// Every field of PaymentEvent, in the order they are serialized
+const EVENT_FIELDS: (keyof PaymentEvent)[] = [
+  "eventId",
+  "paymentId",
+  "timestamp",
+  "amount",
+  "currency",
+  "normalizedAmount",
+  "normalizedCurrency",
+  "country",
+  "merchantId",
+  "merchantName",
+  "paymentMethod",
+  "source",
+  "status"
+];
+
+type FilterField = typeof FILTER_FIELDS[number];
+
+// Per-subscriber view of the stream. Each filter field lists accepted values and an event
+// must match every field given; minAmount/maxAmount bound the amount (inclusive); fields,
+// when set, projects each event down to just those keys.
+export type EventFilter = Partial<Record<FilterField, string[]>> & {
+  minAmount?: number;
+  maxAmount?: number;
+  fields?: (keyof PaymentEvent)[];
+};
+
+const toList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+// Build a filter from a client-supplied object (a WebSocket set_filters body). Value
+// fields take a string or an array of strings, amounts take numbers.
+export function parseFilter(input: unknown): { filter: EventFilter; errors: string[] } {
+  const filter: EventFilter = {};
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { filter, errors };
+  }
+  if (!isRecord(input)) {
+    return { filter, errors: ["filters must be an object"] };
+  }
+
+  for (const key of Object.keys(input)) {
+    const value = input[key];
+
+    if (key === "minAmount" || key === "maxAmount") {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        errors.push(`${key} must be a non-negative number`);
+      } else {
+        filter[key] = value;
+      }
+      continue;
+    }
+
+    if (key === "fields") {
+      const fields = toList(value);
+      const unknown = fields.filter(f => !EVENT_FIELDS.includes(f as keyof PaymentEvent));
+      if (fields.length === 0 || unknown.length > 0) {
+        errors.push(`fields must list PaymentEvent fields: ${EVENT_FIELDS.join(", ")}`);
+      } else {
+        filter.fields = fields as (keyof PaymentEvent)[];
+      }
+      continue;
+    }
+
+    if (!FILTER_FIELDS.includes(key as FilterField)) {
+      errors.push(`Unknown filter "${key}". Valid filters: ${[...FILTER_FIELDS, "minAmount", "maxAmount", "fields"].join(", ")}`);
+      continue;
+    }
+
+    const values = toList(value);
+    if (values.length === 0 || values.some(v => typeof v !== "string" || v.length === 0)) {
+      errors.push(`${key} must be a non-empty string or array of strings`);
+      continue;
+    }
+    filter[key as FilterField] = values as string[];
+  }
+
+  if (filter.minAmount !== undefined && filter.maxAmount !== undefined && filter.minAmount > filter.maxAmount) {
+    errors.push("minAmount cannot be greater than maxAmount");
+  }
+
+  return { filter, errors };
+}
+
+// Build a filter from query parameters, e.g. ?country=US,GB&minAmount=100&fields=amount,country.
+// Parameters that aren't filters (email, seed, ...) are ignored.
+export function parseFilterQuery(query: Record<string, unknown>): { filter: EventFilter; errors: string[] } {
+  const input: Record<string, unknown> = {};
+
+  for (const key of [...FILTER_FIELDS, "fields"]) {
+    if (typeof query[key] === "string") {
+      input[key] = (query[key] as string).split(",").map(v => v.trim()).filter(Boolean);
+    }
+  }
+  for (const key of ["minAmount", "maxAmount"]) {
+    if (typeof query[key] === "string") {
+      input[key] = query[key] === "" ? NaN : Number(query[key]);
+    }
+  }
+
+  return parseFilter(input);
+}
+
+export function matchesFilter(event: PaymentEvent, filter: EventFilter): boolean {
+  if (filter.minAmount !== undefined && event.amount < filter.minAmount) {
+    return false;
+  }
+  if (filter.maxAmount !== undefined && event.amount > filter.maxAmount) {
+    return false;
+  }
+  return FILTER_FIELDS.every(field => {
+    const accepted = filter[field];
+    return !accepted || accepted.includes(event[field]);
+  });
+}
+
+// Serialize an event as this subscriber should see it, or null when the filter drops it
+export function renderEvent(event: PaymentEvent, filter: EventFilter): string | null {
+  if (!matchesFilter(event, filter)) {
+    return null;
+  }
+  if (!filter.fields) {
+    return JSON.stringify(event);
+  }
+
+  const projected: Partial<PaymentEvent> = {};
+  for (const field of EVENT_FIELDS) {
+    if (filter.fields.includes(field)) {
+      (projected as Record<string, unknown>)[field] = event[field];
+    }
+  }
+  return JSON.stringify(projected);
+}
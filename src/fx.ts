@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { hashSeed, isRecord } from "./utils";
+import logger from "./logger";
+
+const FX_RATES_FILE = path.resolve(process.env.FX_RATES_FILE || "config/fx-rates.json");
+
+// Rates are units of each currency per 1 unit of the base currency. With drift enabled,
+// every non-pegged rate oscillates around its configured value by up to `amplitude`
+// (a fraction), with a per-currency phase so they don't move in lockstep.
+export type FxTable = {
+  base: string;
+  rates: Record<string, number>;
+  pegged?: string[];
+  drift?: {
+    enabled: boolean;
+    amplitude: number;
+    periodMinutes: number;
+  };
+};
+
+function validateFxTable(table: unknown): string[] {
+  if (!isRecord(table)) {
+    return ["FX rate table must be an object"];
+  }
+  const errors: string[] = [];
+  if (typeof table.base !== "string") {
+    errors.push("base must be a currency code");
+  }
+  const { rates, drift } = table;
+  if (!isRecord(rates)) {
+    errors.push("rates must be an object of currency -> rate");
+    return errors;
+  }
+  for (const [currency, rate] of Object.entries(rates)) {
+    if (typeof rate !== "number" || !(rate > 0)) {
+      errors.push(`rates.${currency} must be a positive number`);
+    }
+  }
+  if (typeof table.base === "string" && rates[table.base] !== 1) {
+    errors.push(`rates.${table.base} (the base currency) must be 1`);
+  }
+  if (isRecord(drift) && drift.enabled) {
+    if (typeof drift.amplitude !== "number" || drift.amplitude < 0 || drift.amplitude >= 1) {
+      errors.push("drift.amplitude must be a number in [0, 1)");
+    }
+    if (typeof drift.periodMinutes !== "number" || drift.periodMinutes <= 0) {
+      errors.push("drift.periodMinutes must be a positive number");
+    }
+  }
+  return errors;
+}
+
+function loadFxTable(): FxTable {
+  const table = JSON.parse(fs.readFileSync(FX_RATES_FILE, "utf8"));
+  const errors = validateFxTable(table);
+  if (errors.length > 0) {
+    logger.error("Invalid FX rate table", { file: FX_RATES_FILE, errors });
+    throw new Error(`Invalid FX rate table in ${FX_RATES_FILE}: ${errors.join("; ")}`);
+  }
+  logger.info("FX rate table loaded", {
+    file: FX_RATES_FILE,
+    base: table.base,
+    currencies: Object.keys(table.rates).length,
+    drift: !!table.drift?.enabled
+  });
+  return table;
+}
+
+const fxTable = loadFxTable();
+
+export function baseCurrency(): string {
+  return fxTable.base;
+}
+
+export function hasRate(currency: string): boolean {
+  return fxTable.rates[currency] !== undefined;
+}
+
+// Rate for a currency at a point in time (ms). Deterministic in time, so seeded streams
+// on a virtual clock see the same rates on every run.
+export function rateAt(currency: string, at: number): number {
+  const rate = fxTable.rates[currency];
+  if (rate === undefined) {
+    throw new Error(`No FX rate for ${currency}`);
+  }
+
+  const drift = fxTable.drift;
+  if (!drift?.enabled || currency === fxTable.base || fxTable.pegged?.includes(currency)) {
+    return rate;
+  }
+
+  const phase = (hashSeed(currency) / 4294967296) * 2 * Math.PI;
+  const cycle = (2 * Math.PI * at) / (drift.periodMinutes * 60 * 1000);
+  return rate * (1 + drift.amplitude * Math.sin(cycle + phase));
+}
+
+export function toBase(amount: number, currency: string, at: number): number {
+  return Number((amount / rateAt(currency, at)).toFixed(2));
+}
+
+export function fromBase(amount: number, currency: string, at: number): number {
+  return Number((amount * rateAt(currency, at)).toFixed(2));
+}
+
+// The configured table plus the effective rates right now (for the admin view)
+export function fxSnapshot(at = Date.now()) {
+  return {
+    ...fxTable,
+    asOf: new Date(at).toISOString(),
+    effectiveRates: Object.fromEntries(
+      Object.keys(fxTable.rates).map(currency => [currency, Number(rateAt(currency, at).toFixed(6))])
+    )
+  };
+}
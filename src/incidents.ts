@@ -0,0 +1,254 @@
+import { Incident, IncidentDescription, IncidentType, PaymentEvent, PaymentMethod } from "./types";
+import { findCountry, getCatalogue, PAYMENT_METHODS } from "./catalogue";
+import { generateId, isRecord, Rng } from "./utils";
+import logger from "./logger";
+
+const MAX_DURATION_SECONDS = 24 * 60 * 60;
+// Ended incidents kept per session for the admin history
+const HISTORY_SIZE = 50;
+
+export const INCIDENT_TYPES: IncidentType[] = [
+  "method_outage",
+  "regional_failure",
+  "card_testing",
+  "latency_degradation",
+  "duplicate_events",
+  "out_of_order"
+];
+
+// Defaults for optional params, per incident type
+const DEFAULT_PARAMS: Record<IncidentType, Record<string, string | number>> = {
+  method_outage: {},
+  regional_failure: { peakFailureRate: 0.6, rampSeconds: 60 },
+  card_testing: { source: "api", burstShare: 0.6, rateMultiplier: 3 },
+  latency_degradation: { multiplier: 5 },
+  duplicate_events: { rate: 0.2 },
+  out_of_order: { rate: 0.3, maxHoldEvents: 5 }
+};
+
+// An incident request that passed validateIncident: the type-specific params sit beside type
+export type IncidentRequest = {
+  type: IncidentType;
+  durationSeconds: number;
+  [param: string]: unknown;
+};
+
+const incidentsBySession = new Map<string, Incident[]>();
+
+// Validate an incident request. Returns a list of problems (empty when valid).
+export function validateIncident(body: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(body) || !INCIDENT_TYPES.includes(body.type as IncidentType)) {
+    return [`type must be one of ${INCIDENT_TYPES.join(", ")}`];
+  }
+  if (typeof body.durationSeconds !== "number" || body.durationSeconds <= 0 || body.durationSeconds > MAX_DURATION_SECONDS) {
+    errors.push(`durationSeconds must be a number between 1 and ${MAX_DURATION_SECONDS}`);
+  }
+
+  const rate = (key: string) => {
+    if (body[key] !== undefined && (typeof body[key] !== "number" || body[key] < 0 || body[key] > 1)) {
+      errors.push(`${key} must be a number between 0 and 1`);
+    }
+  };
+  const positive = (key: string) => {
+    if (body[key] !== undefined && (typeof body[key] !== "number" || body[key] <= 0)) {
+      errors.push(`${key} must be a positive number`);
+    }
+  };
+
+  switch (body.type as IncidentType) {
+    case "method_outage":
+      if (!PAYMENT_METHODS.includes(body.paymentMethod as PaymentMethod)) {
+        errors.push(`paymentMethod must be one of ${PAYMENT_METHODS.join(", ")}`);
+      }
+      break;
+    case "regional_failure":
+      if (typeof body.country !== "string" || !findCountry(body.country)) {
+        errors.push(`country must be a catalogue country code: ${getCatalogue().catalogue.countries.map(c => c.code).join(", ")}`);
+      }
+      rate("peakFailureRate");
+      if (body.rampSeconds !== undefined && (typeof body.rampSeconds !== "number" || body.rampSeconds < 0)) {
+        errors.push("rampSeconds must be a non-negative number");
+      }
+      break;
+    case "card_testing":
+      if (body.source !== undefined && (typeof body.source !== "string" || !["web", "mobile", "api"].includes(body.source))) {
+        errors.push("source must be one of web, mobile, api");
+      }
+      if (body.country !== undefined && (typeof body.country !== "string" || !findCountry(body.country))) {
+        errors.push("country must be a catalogue country code");
+      }
+      rate("burstShare");
+      positive("rateMultiplier");
+      break;
+    case "latency_degradation":
+      positive("multiplier");
+      break;
+    case "duplicate_events":
+      rate("rate");
+      break;
+    case "out_of_order":
+      rate("rate");
+      positive("maxHoldEvents");
+      break;
+  }
+
+  return errors;
+}
+
+// Start an incident on a session. Validate with validateIncident first. now is the session
+// stream's clock (streamNow), so seeded streams place the incident on their own timeline.
+export function startIncident(email: string, body: IncidentRequest, now = Date.now()): Incident {
+  const { type, durationSeconds, ...rest } = body;
+  const params: Record<string, string | number> = { ...DEFAULT_PARAMS[type] };
+  for (const [key, value] of Object.entries(rest)) {
+    if (typeof value === "string" || typeof value === "number") {
+      params[key] = value;
+    }
+  }
+
+  const incident: Incident = {
+    id: generateId("inc"),
+    type,
+    params,
+    startedAt: now,
+    endsAt: now + durationSeconds * 1000
+  };
+
+  const incidents = incidentsBySession.get(email) ?? [];
+  incidents.push(incident);
+  incidentsBySession.set(email, incidents.slice(-HISTORY_SIZE));
+
+  logger.info("Incident started", { email, incidentId: incident.id, type, params, durationSeconds });
+  return incident;
+}
+
+// End an incident before its time is up. Returns false if it isn't running.
+export function endIncident(email: string, id: string, now = Date.now()): boolean {
+  const incident = incidentsBySession.get(email)?.find(i => i.id === id);
+  if (!incident || incident.endsAt <= now) {
+    return false;
+  }
+  incident.endsAt = now;
+  incident.endedEarly = true;
+  logger.info("Incident ended early", { email, incidentId: id, type: incident.type });
+  return true;
+}
+
+export function activeIncidents(email: string, now = Date.now()): Incident[] {
+  return (incidentsBySession.get(email) ?? []).filter(i => i.startedAt <= now && now < i.endsAt);
+}
+
+export function listIncidents(email: string): Incident[] {
+  return incidentsBySession.get(email) ?? [];
+}
+
+export function clearIncidents(email: string) {
+  incidentsBySession.delete(email);
+}
+
+// Public shape of an incident for marker events and admin responses
+export function describeIncident(incident: Incident): IncidentDescription {
+  return {
+    id: incident.id,
+    type: incident.type,
+    params: incident.params,
+    startedAt: new Date(incident.startedAt).toISOString(),
+    endsAt: new Date(incident.endsAt).toISOString(),
+    endedEarly: incident.endedEarly
+  };
+}
+
+// ============== EFFECTS ON GENERATION ==============
+
+// Decline probability forced by incidents for a payment, or null if none applies.
+// An outage fails every payment on its method; a regional failure climbs linearly to
+// its peak over rampSeconds. now is the stream clock time of the payment.
+export function forcedDeclineRate(
+  incidents: Incident[],
+  payment: Pick<PaymentEvent, "paymentMethod" | "country">,
+  now: number
+): number | null {
+  let rate: number | null = null;
+
+  for (const incident of incidents) {
+    if (incident.type === "method_outage" && incident.params.paymentMethod === payment.paymentMethod) {
+      return 1;
+    }
+    if (incident.type === "regional_failure" && incident.params.country === payment.country) {
+      const rampMs = Number(incident.params.rampSeconds) * 1000;
+      const progress = rampMs > 0 ? Math.min(1, (now - incident.startedAt) / rampMs) : 1;
+      rate = Math.max(rate ?? 0, Number(incident.params.peakFailureRate) * progress);
+    }
+  }
+
+  return rate;
+}
+
+// Factor applied to authorization delays (and pending likelihood) during latency degradation
+export function latencyFactor(incidents: Incident[]): number {
+  return incidents
+    .filter(i => i.type === "latency_degradation")
+    .reduce((factor, i) => Math.max(factor, Number(i.params.multiplier)), 1);
+}
+
+// Factor applied to the event rate (card testing bursts raise it)
+export function rateFactor(incidents: Incident[]): number {
+  return incidents
+    .filter(i => i.type === "card_testing")
+    .reduce((factor, i) => Math.max(factor, Number(i.params.rateMultiplier)), 1);
+}
+
+export function cardTesting(incidents: Incident[]): Incident | undefined {
+  return incidents.find(i => i.type === "card_testing");
+}
+
+// ============== DELIVERY FAULTS ==============
+
+// Per-stream state for out_of_order: events held back and how many more events each waits for
+export type DeliveryState = {
+  held: { event: PaymentEvent; releaseAfter: number }[];
+};
+
+export function createDeliveryState(): DeliveryState {
+  return { held: [] };
+}
+
+// Apply duplicate_events and out_of_order to a freshly generated event and return the
+// events to deliver now, in order: held events that are due, then the event itself
+// (unless it is held back), possibly twice.
+export function applyDeliveryFaults(
+  event: PaymentEvent,
+  incidents: Incident[],
+  state: DeliveryState,
+  rng: Rng
+): PaymentEvent[] {
+  const out: PaymentEvent[] = [];
+
+  state.held.forEach(h => h.releaseAfter--);
+  const due = state.held.filter(h => h.releaseAfter <= 0);
+  state.held = state.held.filter(h => h.releaseAfter > 0);
+  due.forEach(h => out.push(h.event));
+
+  const reorder = incidents.find(i => i.type === "out_of_order");
+  if (reorder && rng() < Number(reorder.params.rate)) {
+    const hold = 1 + Math.floor(rng() * Number(reorder.params.maxHoldEvents));
+    state.held.push({ event, releaseAfter: hold });
+  } else {
+    out.push(event);
+  }
+
+  const duplicate = incidents.find(i => i.type === "duplicate_events");
+  if (duplicate && out.includes(event) && rng() < Number(duplicate.params.rate)) {
+    out.push(event);
+  }
+
+  // Once the incident is over, flush whatever is still held
+  if (!reorder && state.held.length > 0) {
+    state.held.forEach(h => out.push(h.event));
+    state.held = [];
+  }
+
+  return out;
+}
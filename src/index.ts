@@ -1,25 +1,146 @@
 import "dotenv/config";
 import express from "express";
+import { createHash, timingSafeEqual } from "crypto";
 import cors from "cors";
 import logger from "./logger";
 import { getDb } from "./db";
+import { AdminIdentity, AdminRole, Catalogue, ControlEvent, EvaluationStatus, EventMode } from "./types";
 import {
   initSessionStore,
   createSession,
   getSession,
   stopSession,
-  updateMode,
   resumeSession,
   createEvalSession,
   listSessions,
-  emailExists
+  emailExists,
+  attachScenario,
+  detachScenario,
+  rotateTokenId,
+  effectiveEndsAt,
+  remainingMs
 } from "./sessionStore";
+import {
+  initAssignmentClock,
+  describeClock,
+  pauseClock,
+  resumeClock,
+  extendClock,
+  recordReopen,
+  clockHistory,
+  ClockResult
+} from "./assignmentClock";
+import {
+  initScenarioStore,
+  saveScenario,
+  getScenario,
+  listScenarios,
+  deleteScenario
+} from "./scenarioStore";
+import {
+  validateScenario,
+  normalizeScenario,
+  scenarioDurationSeconds
+} from "./scenario";
 import {
   generatePayment,
-  intervalForMode
+  nextDelay,
+  engineContextFor,
+  EngineContext,
+  VALID_MODES
 } from "./eventEngine";
+import { framesSince, clearReplayBuffer } from "./replayBuffer";
+import { sessionCacheMode } from "./sessionCache";
+import { backpressureSink, backpressureStats, clearBackpressureStats, parseSlowConsumerPolicy, SLOW_CONSUMER_POLICIES } from "./backpressure";
+import { openSseStream, sseWriter, writeSseEvent } from "./sse";
+import { authenticateSession, issueSessionToken } from "./sessionTokens";
+import { rateLimit, acquireDemoStream, LIMITS } from "./rateLimit";
+import { onAssignmentExpired, startExpirySweeper, stopExpirySweeper } from "./expirySweeper";
+import {
+  initWebhooks,
+  createWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  emitWebhookEvent,
+  startWebhookDelivery,
+  stopWebhookDelivery,
+  WEBHOOK_EVENTS
+} from "./webhooks";
+import { joinSessionStream, changeSessionMode, viewFrame, connectionCount, streamNow, streamTraffic, MAX_CONNECTIONS_PER_SESSION } from "./sessionStream";
+import { parseFilterQuery, renderEvent } from "./filters";
+import { aggregateSnapshot, clearAggregates } from "./aggregates";
+import { fxSnapshot } from "./fx";
+import { initEventLog, flushEventLog, eventLogCursor, csvHeader, csvRow, EventLogKind } from "./eventLog";
+import {
+  validateIncident,
+  startIncident,
+  endIncident,
+  listIncidents,
+  clearIncidents,
+  describeIncident,
+  INCIDENT_TYPES
+} from "./incidents";
+import {
+  initCatalogue,
+  getCatalogue,
+  validateCatalogue,
+  replaceCatalogue,
+  resetCatalogue,
+  parseCatalogueText,
+  findCountry
+} from "./catalogue";
+import { attachWebSocketServer } from "./wsServer";
+import {
+  initSubmissions,
+  validateSubmission,
+  saveSubmission,
+  getSubmission,
+  listSubmissions,
+  amendmentDeadline,
+  submissionWindow,
+  SubmissionFields
+} from "./submissions";
+import {
+  initReviews,
+  currentRubric,
+  validateCriteria,
+  saveRubric,
+  saveScoreSheet,
+  submitScoreSheet,
+  evaluationFor,
+  decideEvaluation,
+  listEvaluations,
+  ReviewResult,
+  DEFAULT_CRITERIA_LABELS,
+  EVALUATION_DECISIONS,
+  EVALUATION_STATUSES
+} from "./reviews";
+import {
+  initAdminKeys,
+  authenticateAdminKey,
+  roleAllows,
+  recordAudit,
+  createAdminKey,
+  listAdminKeys,
+  revokeAdminKey,
+  listAuditLog,
+  ADMIN_ROLES
+} from "./adminKeys";
+import { registry, httpRequestDuration, openStreams, eventsGenerated } from "./metrics";
 
 const app = express();
+// Behind a proxy, req.ip (used for rate limits) must come from X-Forwarded-For.
+// TRUST_PROXY=<hops>, true/false, or an address list (e.g. "loopback, 10.0.0.0/8")
+const parseTrustProxy = (value: string): boolean | number | string => {
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY.trim()));
+}
 app.use(cors());
 app.use(express.json());
 
@@ -29,7 +150,8 @@ app.use((req, res, next) => {
   logger.info("Incoming request", {
     method: req.method,
     path: req.path,
-    query: req.query,
+    // Session tokens can be passed as ?token= and must not end up in logs
+    query: req.query.token ? { ...req.query, token: "[redacted]" } : req.query,
     ip: req.ip
   });
 
@@ -41,12 +163,18 @@ app.use((req, res, next) => {
       statusCode: res.statusCode,
       duration: `${duration}ms`
     });
+    // Route pattern rather than path so /admin/sessions/:email is one series
+    httpRequestDuration.observe({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status: res.statusCode
+    }, duration / 1000);
   });
 
   next();
 });
 
-const ASSIGNMENT_DURATION = 8 * 60 * 60 * 1000;
+const ASSIGNMENT_DURATION = (Number(process.env.ASSIGNMENT_DURATION_MINUTES) || 8 * 60) * 60 * 1000;
 
 // Simple email validation
 const isValidEmail = (email: string): boolean => {
@@ -58,6 +186,30 @@ const isValidGithubUrl = (url: string): boolean => {
   return /^https?:\/\/(www\.)?github\.com\/[a-zA-Z0-9_-]+\/?$/i.test(url);
 };
 
+// Webhook receivers must be absolute http(s) URLs
+const isValidWebhookUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+// Generation context for a stream: ?seed makes it reproducible, ?epoch (ISO date) sets where its clock starts.
+// Returns null when the epoch can't be parsed.
+const engineContextFromQuery = (query: express.Request["query"]): EngineContext | null => {
+  return engineContextFor(query.seed as string | undefined, query.epoch as string | undefined);
+};
+
+// Resume point of a reconnecting SSE client: the Last-Event-ID header browsers send
+// automatically, or ?lastEventId for clients that can't set headers
+const lastEventIdFrom = (req: express.Request): number | null => {
+  const raw = req.headers["last-event-id"] ?? req.query.lastEventId;
+  const id = Number(raw);
+  return raw !== undefined && Number.isInteger(id) && id >= 0 ? id : null;
+};
+
 /* ---------------- HEALTH CHECK ---------------- */
 
 app.get("/health", async (req, res) => {
@@ -67,7 +219,8 @@ app.get("/health", async (req, res) => {
     res.json({ 
       status: "healthy", 
       timestamp: new Date().toISOString(),
-      uptime: process.uptime()
+      uptime: process.uptime(),
+      sessionCache: sessionCacheMode()
     });
   } catch (error) {
     logger.error("Health check failed", { error: error instanceof Error ? error.message : String(error) });
@@ -78,9 +231,40 @@ app.get("/health", async (req, res) => {
   }
 });
 
+// Candidate routes authenticate with the session token returned by /start:
+// Authorization: Bearer <token>, or ?token= where headers can't be set (EventSource).
+// An email sent alongside it must match the token's.
+const sessionTokenFrom = (req: express.Request): string | undefined => {
+  const header = req.headers["authorization"];
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length);
+  }
+  return typeof req.query.token === "string" ? req.query.token : undefined;
+};
+
+const requireSessionToken = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const claimedEmail = (req.query.email ?? req.body?.email) as string | undefined;
+
+  try {
+    const auth = await authenticateSession(sessionTokenFrom(req), claimedEmail);
+    if (!auth.ok) {
+      logger.warn("Session token rejected", { path: req.path, email: claimedEmail, error: auth.error, ip: req.ip });
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    res.locals.email = auth.email;
+    next();
+  } catch (error) {
+    logger.error("Session token check failed: database error", {
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 /* ---------------- START ---------------- */
 
-app.post("/start", async (req, res) => {
+app.post("/start", rateLimit("start", "ip", LIMITS.startPerIp), rateLimit("start", "email", LIMITS.startPerEmail), async (req, res) => {
   const { name, email, github } = req.body;
   
   logger.info("Assignment start requested", { name, email, github });
@@ -151,12 +335,15 @@ app.post("/start", async (req, res) => {
     });
     logger.info("Assignment record created", { email, startedAt, endsAt });
 
-    await createSession(email, name, endsAt.getTime());
+    const session = await createSession(email, name, endsAt.getTime());
 
     logger.info("Assignment started successfully", { email, endsAt });
+    emitWebhookEvent("assignment.started", { email, name, github, startedAt, endsAt });
     res.json({
       message: "Assignment started",
-      endsAt
+      endsAt,
+      // Required by /events, /time-remaining, /stop and /test/mode
+      token: issueSessionToken(session)
     });
   } catch (error) {
     logger.error("Assignment start failed: database error", { 
@@ -169,35 +356,27 @@ app.post("/start", async (req, res) => {
 
 /* ---------------- TIME ---------------- */
 
-app.get("/time-remaining", async (req, res) => {
-  const email = req.query.email as string;
+app.get("/time-remaining", requireSessionToken, async (req, res) => {
+  const email = res.locals.email as string;
   
   logger.debug("Time remaining requested", { email });
 
-  if (!email) {
-    logger.warn("Time remaining failed: missing email", { query: req.query });
-    return res.status(400).json({ error: "Missing email query parameter" });
-  }
-
   try {
-    const db = await getDb();
-
-    const assignment = await db
-      .collection("assignments")
-      .findOne({ email, status: "active" });
+    // Same clock the event stream reads, so the two never disagree
+    const session = await getSession(email);
 
-    if (!assignment) {
+    if (!session || !session.isActive) {
       logger.warn("Time remaining failed: no active assignment", { email });
       return res.status(404).json({ error: "No active assignment" });
     }
 
-    const remaining =
-      assignment.endsAt.getTime() - Date.now();
-    const remainingSeconds = Math.max(0, Math.floor(remaining / 1000));
+    const { remainingSeconds, endsAt, paused } = describeClock(session);
 
-    logger.debug("Time remaining retrieved", { email, remainingSeconds });
+    logger.debug("Time remaining retrieved", { email, remainingSeconds, paused });
     res.json({
-      remainingSeconds
+      remainingSeconds,
+      endsAt,
+      paused
     });
   } catch (error) {
     logger.error("Time remaining failed: database error", { 
@@ -210,25 +389,33 @@ app.get("/time-remaining", async (req, res) => {
 
 /* ---------------- STOP ---------------- */
 
-app.post("/stop", async (req, res) => {
-  const { email, githubRepo } = req.body;
+app.post("/stop", requireSessionToken, async (req, res) => {
+  const { githubRepo, deployedUrl, notes } = req.body;
+  const email = res.locals.email as string;
   
   logger.info("Assignment stop requested", { email, hasRepo: !!githubRepo });
 
-  if (!email) {
-    logger.warn("Assignment stop failed: missing email", { body: req.body });
-    return res.status(400).json({ error: "Missing email" });
-  }
-
   try {
     const db = await getDb();
 
+    // Reject a bad submission before ending the assignment, so the candidate can fix it and retry
+    let fields: SubmissionFields | undefined;
+    if (githubRepo !== undefined) {
+      const validation = await validateSubmission(email, { githubRepo, deployedUrl, notes });
+      if (!validation.ok) {
+        logger.warn("Assignment stop failed: invalid submission", { email, githubRepo, error: validation.error });
+        return res.status(validation.status).json({ error: validation.error });
+      }
+      fields = validation.fields;
+    }
+
+    const endedAt = new Date();
     const updateResult = await db.collection("assignments").updateOne(
       { email, status: "active" },
       {
         $set: {
           status: "completed",
-          endedAt: new Date()
+          endedAt
         }
       }
     );
@@ -240,18 +427,17 @@ app.post("/stop", async (req, res) => {
 
     logger.info("Assignment marked as completed", { email });
 
-    if (githubRepo) {
-      await db.collection("submissions").insertOne({
-        email,
-        githubRepo,
-        submittedAt: new Date()
-      });
-      logger.info("Submission recorded", { email, githubRepo });
-    }
+    const submission = fields ? await saveSubmission(email, fields) : null;
 
     await stopSession(email);
     logger.info("Assignment stopped successfully", { email });
-    res.json({ message: "Assignment completed" });
+    emitWebhookEvent("assignment.completed", { email, endedAt, submitted: !!submission });
+    res.json({
+      message: "Assignment completed",
+      submission,
+      // PUT /submission accepts a first submission or changes until then
+      amendableUntil: amendmentDeadline(endedAt)
+    });
   } catch (error) {
     logger.error("Assignment stop failed: database error", { 
       email, 
@@ -261,16 +447,95 @@ app.post("/stop", async (req, res) => {
   }
 });
 
+/* ---------------- SUBMISSION ---------------- */
+
+app.get("/submission", requireSessionToken, async (req, res) => {
+  const email = res.locals.email as string;
+
+  logger.debug("Submission requested", { email });
+
+  try {
+    const window = await submissionWindow(email);
+    const submission = await getSubmission(email);
+
+    if (!submission) {
+      return res.status(404).json({ error: "No submission yet", amendableUntil: window?.amendableUntil });
+    }
+    res.json({ ...submission, amendableUntil: window?.amendableUntil });
+  } catch (error) {
+    logger.error("Submission lookup failed: database error", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Submit after /stop (or after time ran out), or amend an earlier submission, until the
+// grace deadline. Fields left out are cleared, so send the complete submission each time.
+app.put("/submission", requireSessionToken, async (req, res) => {
+  const { githubRepo, deployedUrl, notes } = req.body ?? {};
+  const email = res.locals.email as string;
+
+  logger.info("Submission update requested", { email, githubRepo });
+
+  try {
+    const window = await submissionWindow(email);
+
+    if (window?.active) {
+      return res.status(409).json({ error: "Assignment still in progress. Submit with /stop." });
+    }
+    const deadline = window?.amendableUntil;
+    if (!deadline) {
+      return res.status(404).json({ error: "No finished assignment found" });
+    }
+    if (Date.now() > deadline.getTime()) {
+      logger.warn("Submission update refused: past the grace deadline", { email, deadline });
+      return res.status(409).json({ error: "Submission window has closed", amendableUntil: deadline });
+    }
+
+    const validation = await validateSubmission(email, { githubRepo, deployedUrl, notes });
+    if (!validation.ok) {
+      logger.warn("Submission update failed: invalid submission", { email, githubRepo, error: validation.error });
+      return res.status(validation.status).json({ error: validation.error });
+    }
+
+    const submission = await saveSubmission(email, validation.fields);
+    res.json({ ...submission, amendableUntil: deadline });
+  } catch (error) {
+    logger.error("Submission update failed: database error", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 /* ---------------- EVENTS (SSE) ---------------- */
 
-app.get("/events", async (req, res) => {
-  const email = req.query.email as string;
+app.get("/events", requireSessionToken, async (req, res) => {
+  const email = res.locals.email as string;
   
   logger.info("SSE connection requested", { email });
 
-  if (!email) {
-    logger.warn("SSE connection failed: missing email", { query: req.query });
-    return res.status(400).json({ error: "Missing email query parameter" });
+  const ctx = engineContextFromQuery(req.query);
+  if (!ctx) {
+    logger.warn("SSE connection failed: invalid epoch", { email, epoch: req.query.epoch });
+    return res.status(400).json({ error: "Invalid epoch. Expected an ISO 8601 date" });
+  }
+
+  // Optional server-side filtering/projection, e.g. ?country=US,GB&minAmount=100&fields=amount,country
+  const { filter, errors: filterErrors } = parseFilterQuery(req.query);
+  if (filterErrors.length > 0) {
+    logger.warn("SSE connection failed: invalid filters", { email, errors: filterErrors });
+    return res.status(400).json({ error: "Invalid filters", details: filterErrors });
+  }
+
+  // ?slowConsumer=drop_oldest (default) | coalesce | disconnect
+  const slowConsumer = parseSlowConsumerPolicy(req.query.slowConsumer);
+  if (!slowConsumer) {
+    logger.warn("SSE connection failed: invalid slowConsumer policy", { email, slowConsumer: req.query.slowConsumer });
+    return res.status(400).json({ error: "Invalid slowConsumer policy", validPolicies: SLOW_CONSUMER_POLICIES });
   }
 
   const session = await getSession(email);
@@ -280,79 +545,161 @@ app.get("/events", async (req, res) => {
     return res.status(403).json({ error: "No active session. Start assignment first." });
   }
 
-  logger.info("SSE connection established", { email, mode: session.mode });
+  const initialTraffic = streamTraffic(session, ctx);
+  const lastEventId = lastEventIdFrom(req);
+  const replay = lastEventId !== null ? framesSince(email, lastEventId) : null;
 
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
+  // All connections for a session share one stream; a slow client is handled by its policy
+  const sink = backpressureSink(sseWriter(res), slowConsumer, email, "sse");
+  const joined = joinSessionStream(email, initialTraffic, ctx, sink, "sse", filter, session.tokenId);
 
-  // Send initial connection event
-  res.write(`data: ${JSON.stringify({ type: "connected", mode: session.mode })}\n\n`);
+  if (!joined.ok) {
+    return res.status(joined.status).json({ error: joined.error });
+  }
+  const { stream } = joined;
+
+  logger.info("SSE connection established", {
+    email,
+    mode: initialTraffic.mode,
+    seed: joined.seed,
+    filter,
+    slowConsumer,
+    connections: joined.connections,
+    resumedFrom: lastEventId,
+    replayed: replay?.frames.length
+  });
 
-  let currentMode = session.mode;
-  let eventCount = 0;
-  let isConnectionClosed = false;
-  let activeTimeout: NodeJS.Timeout | null = null;
+  openSseStream(res);
+
+  // Send initial connection event (no id, so it doesn't move the client's resume point)
+  const connected: ControlEvent = {
+    type: "connected",
+    mode: initialTraffic.mode,
+    seed: joined.seed,
+    slowConsumer,
+    connections: joined.connections,
+    resumedFrom: lastEventId ?? undefined,
+    replayed: replay?.frames.length,
+    gap: replay?.gap
+  };
+  sink.send({ kind: "control", data: JSON.stringify(connected) });
 
-  const sendEvent = async () => {
-    // Stop if connection was closed
-    if (isConnectionClosed) {
-      return;
+  // Replay what the client missed while disconnected
+  replay?.frames.forEach(frame => {
+    const visible = viewFrame(frame, filter);
+    if (visible) {
+      sink.send(visible);
     }
+  });
 
-    const s = await getSession(email);
-    if (!s || !s.isActive) {
-      logger.info("SSE stream ended: session inactive", { email, totalEvents: eventCount });
-      res.write(`data: ${JSON.stringify({ type: "session_ended" })}\n\n`);
-      res.end();
-      return;
-    }
+  req.on("close", () => {
+    logger.info("SSE connection closed by client", { email, totalEvents: stream.eventCount(), dropped: sink.dropped() });
+    stream.stop();
+  });
+});
 
-    // Check if mode changed, adjust interval dynamically
-    if (s.mode !== currentMode) {
-      logger.info("SSE mode changed", { email, oldMode: currentMode, newMode: s.mode });
-      currentMode = s.mode;
-      res.write(`data: ${JSON.stringify({ type: "mode_changed", mode: currentMode })}\n\n`);
+/* ---------------- AGGREGATES ---------------- */
+
+const DEFAULT_AGGREGATE_INTERVAL_SECONDS = 5;
+
+// Rolling aggregates (1m/5m/1h, sliding and tumbling) over the events generated for a
+// session. Counted from the same stream /events sends, so they match what the client saw.
+app.get("/aggregates/snapshot", requireSessionToken, async (req, res) => {
+  const email = res.locals.email as string;
+
+  logger.debug("Aggregate snapshot requested", { email });
+
+  try {
+    const session = await getSession(email);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
     }
+    res.json(aggregateSnapshot(email));
+  } catch (error) {
+    logger.error("Aggregate snapshot failed: database error", { 
+      email, 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
 
-    const event = generatePayment(s.mode);
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-    eventCount++;
+// Same aggregates pushed as SSE frames every ?intervalSeconds (default 5)
+app.get("/aggregates", requireSessionToken, async (req, res) => {
+  const email = res.locals.email as string;
+  const intervalSeconds = req.query.intervalSeconds ? Number(req.query.intervalSeconds) : DEFAULT_AGGREGATE_INTERVAL_SECONDS;
 
-    // Log every 100 events to avoid spam
-    if (eventCount % 100 === 0) {
-      logger.debug("SSE events streamed", { email, eventCount, mode: s.mode });
+  logger.info("Aggregates SSE connection requested", { email, intervalSeconds });
+
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds < 1 || intervalSeconds > 300) {
+    return res.status(400).json({ error: "intervalSeconds must be between 1 and 300" });
+  }
+
+  try {
+    const session = await getSession(email);
+    if (!session || !session.isActive) {
+      logger.warn("Aggregates SSE connection failed: no active session", { email, hasSession: !!session });
+      return res.status(403).json({ error: "No active session. Start assignment first." });
     }
+  } catch (error) {
+    logger.error("Aggregates SSE connection failed: database error", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({ error: "Internal server error" });
+  }
 
-    // Schedule next event with current mode's interval
-    activeTimeout = setTimeout(sendEvent, intervalForMode(s.mode));
-  };
+  openSseStream(res);
+  openStreams.inc({ transport: "aggregates" });
+  writeSseEvent(res, "connected", { intervalSeconds });
+  writeSseEvent(res, "aggregates", aggregateSnapshot(email));
+
+  let frameCount = 0;
+  const interval = setInterval(async () => {
+    try {
+      const s = await getSession(email);
+      if (!s || !s.isActive) {
+        logger.info("Aggregates SSE stream ended: session inactive", { email, totalFrames: frameCount });
+        writeSseEvent(res, "session_ended", { reason: s?.endedReason });
+        clearInterval(interval);
+        res.end();
+        return;
+      }
+    } catch (error) {
+      // End the stream so the client reconnects instead of waiting on a stalled one
+      logger.error("Aggregates SSE stream ended: database error", {
+        email,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      clearInterval(interval);
+      res.end();
+      return;
+    }
 
-  // Start the event loop
-  activeTimeout = setTimeout(sendEvent, intervalForMode(session.mode));
+    writeSseEvent(res, "aggregates", aggregateSnapshot(email));
+    frameCount++;
+  }, intervalSeconds * 1000);
 
   req.on("close", () => {
-    logger.info("SSE connection closed by client", { email, totalEvents: eventCount });
-    isConnectionClosed = true;
-    if (activeTimeout) {
-      clearTimeout(activeTimeout);
-    }
+    logger.info("Aggregates SSE connection closed by client", { email, totalFrames: frameCount });
+    clearInterval(interval);
+    openStreams.dec({ transport: "aggregates" });
   });
 });
 
 /* ---------------- TEST MODE (For Candidates) ---------------- */
 
-const VALID_MODES = ["normal", "high_traffic", "country_focus", "payment_spike", "chaos"] as const;
-
-// Candidates can use this to test their dashboard with different traffic modes
-app.post("/test/mode", async (req, res) => {
-  const { email, mode } = req.body;
+// Candidates can use this to test their dashboard with different traffic modes.
+// country_focus takes an optional country (catalogue code, e.g. "DE").
+app.post("/test/mode", rateLimit("mode", "ip", LIMITS.modePerIp), requireSessionToken, rateLimit("mode", "email", LIMITS.modePerEmail), async (req, res) => {
+  const { mode, country } = req.body;
+  const email = res.locals.email as string;
   
-  logger.info("Test mode change requested", { email, mode });
+  logger.info("Test mode change requested", { email, mode, country });
 
-  if (!email || !mode) {
-    logger.warn("Test mode change failed: missing fields", { hasEmail: !!email, hasMode: !!mode });
-    return res.status(400).json({ error: "Missing email or mode" });
+  if (!mode) {
+    logger.warn("Test mode change failed: missing mode", { email });
+    return res.status(400).json({ error: "Missing mode" });
   }
   
   if (!VALID_MODES.includes(mode)) {
@@ -364,9 +711,18 @@ app.post("/test/mode", async (req, res) => {
   }
 
   try {
-    await updateMode(email, mode);
-    logger.info("Test mode changed successfully", { email, mode });
-    res.json({ message: `Mode set to ${mode}` });
+    const result = await changeSessionMode(email, mode, country);
+    if (!result.ok) {
+      logger.warn("Test mode change failed", { email, mode, country, error: result.error });
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    logger.info("Test mode changed successfully", { email, mode, country: result.country });
+    res.json({
+      message: result.country ? `Mode set to ${mode} (${result.country})` : `Mode set to ${mode}`,
+      mode,
+      country: result.country
+    });
   } catch (e) {
     logger.error("Test mode change failed: session not found", { email, mode });
     res.status(404).json({ error: "Session not found" });
@@ -375,28 +731,88 @@ app.post("/test/mode", async (req, res) => {
 
 /* ---------------- ADMIN (Evaluator Only) ---------------- */
 
-// API Key authentication middleware for admin endpoints
-const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
-
-const requireAdminKey = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+// API key authentication for admin endpoints. Keys are named and carry a role
+// (viewer < reviewer < admin); every authenticated call is written to the audit log.
+const requireRole = (role: AdminRole) => async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const providedKey = req.headers["x-admin-api-key"] || req.headers["authorization"]?.replace("Bearer ", "");
   
-  if (!providedKey) {
+  if (!providedKey || typeof providedKey !== "string") {
     logger.warn("Admin endpoint accessed without API key", { path: req.path, ip: req.ip });
     return res.status(401).json({ error: "Missing API key. Provide X-Admin-API-Key header or Authorization: Bearer <key>" });
   }
 
-  if (providedKey !== ADMIN_API_KEY) {
+  let admin: AdminIdentity | null;
+  try {
+    admin = await authenticateAdminKey(providedKey);
+  } catch (error) {
+    logger.error("Admin authentication failed: database error", {
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+
+  if (!admin) {
     logger.warn("Admin endpoint accessed with invalid API key", { path: req.path, ip: req.ip });
     return res.status(403).json({ error: "Invalid API key" });
   }
 
-  logger.debug("Admin endpoint authenticated", { path: req.path });
+  if (!roleAllows(admin.role, role)) {
+    logger.warn("Admin endpoint accessed with insufficient role", { path: req.path, admin: admin.name, role: admin.role, required: role });
+    return res.status(403).json({ error: `This endpoint requires the ${role} role` });
+  }
+
+  res.locals.admin = admin;
+  res.on("finish", () => {
+    recordAudit({
+      at: new Date(),
+      actor: admin!.name,
+      keyId: admin!.keyId,
+      role: admin!.role,
+      method: req.method,
+      route: `${req.baseUrl}${req.route?.path ?? req.path}`,
+      params: req.params,
+      query: req.query,
+      body: req.method === "GET" ? undefined : req.body,
+      status: res.statusCode,
+      ip: req.ip
+    });
+  });
+
+  logger.debug("Admin endpoint authenticated", { path: req.path, admin: admin.name, role: admin.role });
   next();
 };
 
+/* ---------------- METRICS ---------------- */
+
+// Scrapers send Authorization: Bearer <METRICS_TOKEN>. Without METRICS_TOKEN set, /metrics takes
+// a viewer admin key like the rest of the admin API (each scrape then lands in the audit log).
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+const sameSecret = (a: string, b: string): boolean =>
+  timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+
+const requireMetricsAccess = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const provided = req.headers["authorization"]?.replace("Bearer ", "");
+  if (METRICS_TOKEN && provided && sameSecret(provided, METRICS_TOKEN)) {
+    return next();
+  }
+  return requireRole("viewer")(req, res, next);
+};
+
+// Prometheus exposition format, for scraping
+app.get("/metrics", requireMetricsAccess, async (req, res) => {
+  try {
+    res.setHeader("Content-Type", registry.contentType);
+    res.end(await registry.metrics());
+  } catch (error) {
+    logger.error("Metrics collection failed", { error: error instanceof Error ? error.message : String(error) });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Resume an expired/completed session for evaluation
-app.post("/admin/resume", requireAdminKey, async (req, res) => {
+app.post("/admin/resume", requireRole("reviewer"), async (req, res) => {
   const { email, durationMinutes = 60 } = req.body;
   
   logger.info("Admin: resume session requested", { email, durationMinutes });
@@ -406,45 +822,78 @@ app.post("/admin/resume", requireAdminKey, async (req, res) => {
   }
 
   try {
+    const previous = await getSession(email);
     const session = await resumeSession(email, durationMinutes * 60 * 1000);
+    await recordReopen(email, res.locals.admin.name, previous?.endsAt ?? session.endsAt, session, durationMinutes);
+    // Sessions from before tokens existed get their first tokenId here
+    const token = issueSessionToken(session.tokenId ? session : await rotateTokenId(email));
     res.json({ 
       message: "Session resumed for evaluation",
       email: session.email,
       mode: session.mode,
       expiresAt: new Date(session.endsAt).toISOString(),
       durationMinutes,
-      connectWith: `/events?email=${encodeURIComponent(email)}`
+      token,
+      connectWith: `/events?token=${token}`
     });
-  } catch (e) {
-    logger.error("Admin: resume failed - session not found", { email });
-    res.status(404).json({ error: "Session not found. Use /admin/eval to create a new one." });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Session not found") {
+      logger.warn("Admin: resume failed - session not found", { email });
+      return res.status(404).json({ error: "Session not found. Use /admin/eval to create a new one." });
+    }
+    logger.error("Admin: resume failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
   }
 });
 
 // Create a fresh evaluation session (no /start required, bypasses email restriction)
-app.post("/admin/eval", requireAdminKey, async (req, res) => {
-  const { email = "eval@payport.dev", durationMinutes = 60, mode = "normal" } = req.body;
+app.post("/admin/eval", requireRole("reviewer"), async (req, res) => {
+  const { email = "eval@payport.dev", durationMinutes = 60, mode = "normal", scenario: scenarioName } = req.body;
   
-  logger.info("Admin: eval session requested", { email, durationMinutes, mode });
+  logger.info("Admin: eval session requested", { email, durationMinutes, mode, scenario: scenarioName });
 
   if (!VALID_MODES.includes(mode)) {
     return res.status(400).json({ error: "Invalid mode", validModes: VALID_MODES });
   }
 
-  const session = await createEvalSession(email, durationMinutes * 60 * 1000, mode);
-  
-  res.json({ 
-    message: "Evaluation session created",
-    email: session.email,
-    mode: session.mode,
-    expiresAt: new Date(session.endsAt).toISOString(),
-    durationMinutes,
-    connectWith: `/events?email=${encodeURIComponent(email)}`
-  });
+  try {
+    const scenario = scenarioName ? await getScenario(scenarioName) : null;
+    if (scenarioName && !scenario) {
+      return res.status(404).json({ error: "Scenario not found" });
+    }
+
+    const session = await createEvalSession(email, durationMinutes * 60 * 1000, mode, scenario ?? undefined);
+    // Fresh session, fresh event ids and counts
+    clearReplayBuffer(email);
+    clearAggregates(email);
+    clearIncidents(email);
+    clearBackpressureStats(email);
+    const token = issueSessionToken(session);
+
+    res.json({ 
+      message: "Evaluation session created",
+      email: session.email,
+      mode: session.mode,
+      scenario: session.scenario?.name,
+      expiresAt: new Date(session.endsAt).toISOString(),
+      durationMinutes,
+      token,
+      connectWith: `/events?token=${token}`
+    });
+  } catch (error) {
+    logger.error("Admin: eval session failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
 });
 
 // List all active sessions
-app.get("/admin/sessions", requireAdminKey, async (req, res) => {
+app.get("/admin/sessions", requireRole("viewer"), async (req, res) => {
   logger.info("Admin: listing all sessions");
   
   const sessions = await listSessions();
@@ -457,90 +906,937 @@ app.get("/admin/sessions", requireAdminKey, async (req, res) => {
       name: s.name,
       mode: s.mode,
       isActive: s.isActive,
-      expiresAt: new Date(s.endsAt).toISOString(),
-      remainingMinutes: Math.max(0, Math.round((s.endsAt - now) / 60000))
+      connections: connectionCount(s.email),
+      backpressure: backpressureStats(s.email),
+      scenario: s.scenario ? { name: s.scenario.name, step: streamTraffic(s).scenario?.stepIndex ?? null } : undefined,
+      expiresAt: new Date(effectiveEndsAt(s, now)).toISOString(),
+      remainingMinutes: Math.round(remainingMs(s, now) / 60000),
+      paused: s.pausedAt !== undefined
     }))
   });
 });
 
-/* ---------------- ADMIN: Candidate Management ---------------- */
+/* ---------------- ADMIN: Assignment Clock ---------------- */
 
-// Add eligible candidate(s) - accepts single or array
-app.post("/admin/candidates", requireAdminKey, async (req, res) => {
-  const { email, emails, name } = req.body;
-  
-  logger.info("Admin: add eligible candidate(s) requested", { email, emails, name });
+// Current clock plus every pause, resume, extension and reopen, oldest first
+app.get("/admin/sessions/:email/clock", requireRole("viewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
 
-  // Support both single email and batch emails
-  const emailList: string[] = emails || (email ? [email] : []);
-  
-  if (emailList.length === 0) {
-    return res.status(400).json({ error: "Missing email or emails field" });
-  }
+  logger.info("Admin: clock requested", { email });
 
-  // Validate all emails
-  const invalidEmails = emailList.filter(e => !isValidEmail(e));
-  if (invalidEmails.length > 0) {
-    return res.status(400).json({ 
-      error: "Invalid email format", 
-      invalidEmails 
+  try {
+    const session = await getSession(email);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    res.json({ email, isActive: session.isActive, ...describeClock(session), history: await clockHistory(email) });
+  } catch (error) {
+    logger.error("Admin: clock request failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
     });
+    res.status(500).json({ error: "Internal server error" });
   }
+});
 
-  try {
-    const db = await getDb();
-    const results = {
-      added: [] as string[],
-      alreadyExists: [] as string[]
-    };
-
-    for (const candidateEmail of emailList) {
-      const normalizedEmail = candidateEmail.toLowerCase();
-      
-      // Check if already exists
-      const existing = await db
-        .collection("eligible_candidates")
-        .findOne({ email: normalizedEmail });
+const sendClockResult = (res: express.Response, email: string, result: ClockResult) => {
+  if (!result.ok) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.json({ email, ...describeClock(result.session) });
+};
 
-      if (existing) {
-        results.alreadyExists.push(normalizedEmail);
-        continue;
-      }
+// { reason? }
+app.post("/admin/sessions/:email/clock/pause", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { reason } = req.body ?? {};
 
-      await db.collection("eligible_candidates").insertOne({
-        email: normalizedEmail,
-        name: emailList.length === 1 ? name : undefined,
-        addedAt: new Date(),
-        addedBy: "admin"
-      });
-      
-      results.added.push(normalizedEmail);
-      logger.info("Admin: eligible candidate added", { email: normalizedEmail });
-    }
+  logger.info("Admin: clock pause requested", { email, reason });
 
-    res.json({
-      message: `Added ${results.added.length} candidate(s)`,
-      added: results.added,
-      alreadyExists: results.alreadyExists
-    });
+  try {
+    sendClockResult(res, email, await pauseClock(email, res.locals.admin.name, reason));
   } catch (error) {
-    logger.error("Admin: add candidate failed", { 
-      error: error instanceof Error ? error.message : String(error) 
+    logger.error("Admin: clock pause failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
     });
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// List all eligible candidates
-app.get("/admin/candidates", requireAdminKey, async (req, res) => {
-  logger.info("Admin: listing eligible candidates");
+// { reason? }
+app.post("/admin/sessions/:email/clock/resume", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { reason } = req.body ?? {};
+
+  logger.info("Admin: clock resume requested", { email, reason });
 
   try {
-    const db = await getDb();
-    
-    const candidates = await db
-      .collection("eligible_candidates")
-      .find({})
+    sendClockResult(res, email, await resumeClock(email, res.locals.admin.name, reason));
+  } catch (error) {
+    logger.error("Admin: clock resume failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// { minutes, reason? } e.g. { minutes: 30, reason: "server outage" }
+app.post("/admin/sessions/:email/clock/extend", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { minutes, reason } = req.body ?? {};
+
+  logger.info("Admin: clock extension requested", { email, minutes, reason });
+
+  try {
+    sendClockResult(res, email, await extendClock(email, Number(minutes), res.locals.admin.name, reason));
+  } catch (error) {
+    logger.error("Admin: clock extension failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Session Tokens ---------------- */
+
+// Issue a new session token, revoking the candidate's current one (hand the new one over)
+app.post("/admin/sessions/:email/token", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: session token reissue requested", { email });
+
+  try {
+    const token = issueSessionToken(await rotateTokenId(email));
+    res.json({ message: "Session token reissued; previous tokens are revoked", email, token });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Session not found") {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    logger.error("Admin: session token reissue failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Revoke every token for a session; open streams using them are closed
+app.delete("/admin/sessions/:email/token", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: session token revocation requested", { email });
+
+  try {
+    await rotateTokenId(email);
+    res.json({ message: "Session tokens revoked", email });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Session not found") {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    logger.error("Admin: session token revocation failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: FX Rates ---------------- */
+
+// Configured FX table and the rates in effect right now (including drift)
+app.get("/admin/fx-rates", requireRole("viewer"), (req, res) => {
+  logger.info("Admin: FX rates requested");
+  res.json(fxSnapshot());
+});
+
+/* ---------------- ADMIN: Event Log ---------------- */
+
+const EVENT_LOG_KINDS: EventLogKind[] = ["payment", "control", "mode_set", "subscription"];
+const EVENT_LOG_JSON_LIMIT = 10000;
+
+// Everything a session's stream sent, in order, with mode changes.
+// ?format=json (default, up to 10000 entries) | ndjson | csv, ?from/&to ISO dates, ?kind filter.
+app.get("/admin/sessions/:email/log", requireRole("viewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const format = (req.query.format as string) || "json";
+  const kind = req.query.kind as EventLogKind | undefined;
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+  logger.info("Admin: event log requested", { email, format, kind, from, to });
+
+  if (!["json", "ndjson", "csv"].includes(format)) {
+    return res.status(400).json({ error: "Invalid format", validFormats: ["json", "ndjson", "csv"] });
+  }
+  if (kind && !EVENT_LOG_KINDS.includes(kind)) {
+    return res.status(400).json({ error: "Invalid kind", validKinds: EVENT_LOG_KINDS });
+  }
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return res.status(400).json({ error: "from and to must be ISO 8601 dates" });
+  }
+
+  try {
+    const query = { email, from, to, kind };
+
+    if (format === "json") {
+      const entries = await (await eventLogCursor(query, EVENT_LOG_JSON_LIMIT + 1)).toArray();
+      return res.json({
+        email,
+        total: Math.min(entries.length, EVENT_LOG_JSON_LIMIT),
+        truncated: entries.length > EVENT_LOG_JSON_LIMIT,
+        entries: entries.slice(0, EVENT_LOG_JSON_LIMIT)
+      });
+    }
+
+    // Stream exports straight from the cursor so large logs don't sit in memory
+    const cursor = await eventLogCursor(query);
+    const filename = `${email.replace(/[^a-zA-Z0-9@._-]/g, "_")}-events.${format}`;
+    res.setHeader("Content-Type", format === "csv" ? "text/csv" : "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    if (format === "csv") {
+      res.write(csvHeader());
+    }
+    let count = 0;
+    for await (const entry of cursor) {
+      res.write(format === "csv" ? csvRow(entry) : JSON.stringify(entry) + "\n");
+      count++;
+    }
+    res.end();
+    logger.info("Admin: event log exported", { email, format, entries: count });
+  } catch (error) {
+    logger.error("Admin: event log export failed", { 
+      email,
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+/* ---------------- ADMIN: Incidents ---------------- */
+
+// Inject a named incident into a running session, e.g.
+// { "type": "method_outage", "paymentMethod": "APPLE_PAY", "durationSeconds": 120 }.
+// Streams emit incident_started / incident_ended markers around it.
+app.post("/admin/sessions/:email/incidents", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: incident requested", { email, type: req.body?.type });
+
+  const errors = validateIncident(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid incident", details: errors, validTypes: INCIDENT_TYPES });
+  }
+
+  try {
+    const session = await getSession(email);
+    if (!session || !session.isActive) {
+      return res.status(404).json({ error: "No active session" });
+    }
+
+    const incident = startIncident(email, req.body, streamNow(email));
+    res.status(201).json({ message: "Incident started", incident: describeIncident(incident) });
+  } catch (error) {
+    logger.error("Admin: start incident failed", { 
+      email,
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Incidents of a session, running and recently ended
+app.get("/admin/sessions/:email/incidents", requireRole("viewer"), (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const now = streamNow(email);
+
+  const incidents = listIncidents(email).map(i => ({ ...describeIncident(i), active: i.startedAt <= now && now < i.endsAt }));
+  res.json({ total: incidents.length, incidents });
+});
+
+// End a running incident early
+app.delete("/admin/sessions/:email/incidents/:id", requireRole("reviewer"), (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const id = req.params.id as string;
+
+  logger.info("Admin: end incident requested", { email, incidentId: id });
+
+  if (!endIncident(email, id, streamNow(email))) {
+    return res.status(404).json({ error: "No running incident with that id" });
+  }
+  res.json({ message: "Incident ended", id });
+});
+
+/* ---------------- ADMIN: Catalogue ---------------- */
+
+// Active country/merchant catalogue and where it came from (file or admin upload)
+app.get("/admin/catalogue", requireRole("viewer"), (req, res) => {
+  logger.info("Admin: catalogue requested");
+  res.json(getCatalogue());
+});
+
+// Replace the catalogue. Accepts JSON, or YAML with Content-Type: application/yaml.
+app.put("/admin/catalogue", requireRole("admin"), express.text({ type: ["application/yaml", "application/x-yaml", "text/yaml"] }), async (req, res) => {
+  logger.info("Admin: replace catalogue requested");
+
+  let doc: unknown = req.body;
+  if (typeof req.body === "string") {
+    try {
+      doc = parseCatalogueText(req.body, "yaml");
+    } catch (e) {
+      return res.status(400).json({ error: "Invalid YAML" });
+    }
+  }
+
+  const errors = validateCatalogue(doc);
+  if (errors.length > 0) {
+    logger.warn("Admin: catalogue rejected", { errors });
+    return res.status(400).json({ error: "Invalid catalogue", details: errors });
+  }
+
+  try {
+    const catalogue = await replaceCatalogue(doc as Catalogue);
+    res.json({ message: "Catalogue replaced", countries: catalogue.countries.map(c => c.code) });
+  } catch (error) {
+    logger.error("Admin: replace catalogue failed", { 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Drop the uploaded catalogue and go back to the catalogue file
+app.delete("/admin/catalogue", requireRole("admin"), async (req, res) => {
+  logger.info("Admin: reset catalogue requested");
+
+  try {
+    const catalogue = await resetCatalogue();
+    res.json({ message: "Catalogue reset to file", countries: catalogue.countries.map(c => c.code) });
+  } catch (error) {
+    logger.error("Admin: reset catalogue failed", { 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Scenarios ---------------- */
+
+// Upload (create or replace) a scenario script
+app.post("/admin/scenarios", requireRole("admin"), async (req, res) => {
+  logger.info("Admin: save scenario requested", { name: req.body?.name });
+
+  const errors = validateScenario(req.body);
+  if (errors.length > 0) {
+    logger.warn("Admin: scenario rejected", { name: req.body?.name, errors });
+    return res.status(400).json({ error: "Invalid scenario", details: errors });
+  }
+
+  try {
+    const scenario = await saveScenario(normalizeScenario(req.body));
+    res.json({
+      message: "Scenario saved",
+      scenario,
+      totalDurationSeconds: scenarioDurationSeconds(scenario.steps)
+    });
+  } catch (error) {
+    logger.error("Admin: save scenario failed", { 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// List all scenarios
+app.get("/admin/scenarios", requireRole("viewer"), async (req, res) => {
+  logger.info("Admin: listing scenarios");
+
+  try {
+    const scenarios = await listScenarios();
+    res.json({
+      total: scenarios.length,
+      scenarios: scenarios.map(s => ({
+        ...s,
+        totalDurationSeconds: scenarioDurationSeconds(s.steps)
+      }))
+    });
+  } catch (error) {
+    logger.error("Admin: list scenarios failed", { 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/admin/scenarios/:name", requireRole("viewer"), async (req, res) => {
+  const name = req.params.name as string;
+
+  try {
+    const scenario = await getScenario(name);
+    if (!scenario) {
+      return res.status(404).json({ error: "Scenario not found" });
+    }
+    res.json({ ...scenario, totalDurationSeconds: scenarioDurationSeconds(scenario.steps) });
+  } catch (error) {
+    logger.error("Admin: get scenario failed", { 
+      name,
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/admin/scenarios/:name", requireRole("admin"), async (req, res) => {
+  const name = req.params.name as string;
+
+  logger.info("Admin: delete scenario requested", { name });
+
+  try {
+    const deleted = await deleteScenario(name);
+    if (!deleted) {
+      return res.status(404).json({ error: "Scenario not found" });
+    }
+    res.json({ message: "Scenario deleted", name });
+  } catch (error) {
+    logger.error("Admin: delete scenario failed", { 
+      name,
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Attach a scenario to a session - it starts from its first step immediately.
+// Sessions already streaming pick it up on their next event.
+app.post("/admin/sessions/:email/scenario", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { name } = req.body;
+
+  logger.info("Admin: attach scenario requested", { email, scenario: name });
+
+  if (!name) {
+    return res.status(400).json({ error: "Missing scenario name" });
+  }
+
+  try {
+    const scenario = await getScenario(name);
+    if (!scenario) {
+      return res.status(404).json({ error: "Scenario not found" });
+    }
+
+    const session = await attachScenario(email, scenario);
+    res.json({
+      message: "Scenario attached",
+      email: session.email,
+      scenario: session.scenario?.name,
+      startedAt: new Date(session.scenario!.startedAt).toISOString(),
+      totalDurationSeconds: scenarioDurationSeconds(scenario.steps)
+    });
+  } catch (e) {
+    logger.error("Admin: attach scenario failed - session not found", { email, scenario: name });
+    res.status(404).json({ error: "Session not found" });
+  }
+});
+
+// Detach the scenario; the session falls back to its own mode
+app.delete("/admin/sessions/:email/scenario", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: detach scenario requested", { email });
+
+  try {
+    await detachScenario(email);
+    res.json({ message: "Scenario detached", email });
+  } catch (e) {
+    logger.error("Admin: detach scenario failed - session not found", { email });
+    res.status(404).json({ error: "Session not found" });
+  }
+});
+
+/* ---------------- ADMIN: Keys & Audit Log ---------------- */
+
+const AUDIT_LOG_DEFAULT_LIMIT = 100;
+const AUDIT_LOG_MAX_LIMIT = 1000;
+
+// Create a named key with a role. The key itself is only returned in this response.
+app.post("/admin/keys", requireRole("admin"), async (req, res) => {
+  const { name, role } = req.body ?? {};
+  const createdBy = res.locals.admin.name;
+
+  logger.info("Admin: create key requested", { name, role, createdBy });
+
+  if (!name || typeof name !== "string") {
+    return res.status(400).json({ error: "Missing name" });
+  }
+  if (!ADMIN_ROLES.includes(role)) {
+    return res.status(400).json({ error: "Invalid role", validRoles: ADMIN_ROLES });
+  }
+
+  try {
+    const { key, record } = await createAdminKey(name, role, createdBy);
+    res.status(201).json({
+      message: "Key created. Store it now, it can't be shown again.",
+      key,
+      ...record
+    });
+  } catch (error) {
+    logger.error("Admin: create key failed", {
+      name,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/admin/keys", requireRole("admin"), async (req, res) => {
+  logger.info("Admin: listing keys");
+
+  try {
+    const keys = await listAdminKeys();
+    res.json({ total: keys.length, keys });
+  } catch (error) {
+    logger.error("Admin: list keys failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Revoke a key; requests made with it are refused from now on
+app.delete("/admin/keys/:id", requireRole("admin"), async (req, res) => {
+  const id = req.params.id as string;
+
+  logger.info("Admin: revoke key requested", { keyId: id });
+
+  try {
+    const revoked = await revokeAdminKey(id, res.locals.admin.name);
+    if (!revoked) {
+      return res.status(404).json({ error: "Key not found or already revoked" });
+    }
+    res.json({ message: "Key revoked", id });
+  } catch (error) {
+    logger.error("Admin: revoke key failed", {
+      keyId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Who called which admin endpoint with what arguments, newest first.
+// ?actor (key name), ?route (e.g. /admin/resume), ?from/&to ISO dates, ?limit (default 100, max 1000)
+app.get("/admin/audit-log", requireRole("admin"), async (req, res) => {
+  const limit = req.query.limit ? Number(req.query.limit) : AUDIT_LOG_DEFAULT_LIMIT;
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+  logger.info("Admin: audit log requested", { query: req.query });
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_LOG_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${AUDIT_LOG_MAX_LIMIT}` });
+  }
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return res.status(400).json({ error: "from and to must be ISO 8601 dates" });
+  }
+
+  try {
+    const entries = await listAuditLog({
+      actor: req.query.actor as string | undefined,
+      route: req.query.route as string | undefined,
+      from,
+      to
+    }, limit);
+    res.json({ total: entries.length, entries });
+  } catch (error) {
+    logger.error("Admin: audit log failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Webhooks ---------------- */
+
+const WEBHOOK_DELIVERIES_DEFAULT_LIMIT = 50;
+const WEBHOOK_DELIVERIES_MAX_LIMIT = 500;
+const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"];
+
+// Register a receiver for lifecycle events. events defaults to all of them.
+// The signing secret is returned once, like admin keys.
+app.post("/admin/webhooks", requireRole("admin"), async (req, res) => {
+  const { url, events = WEBHOOK_EVENTS } = req.body ?? {};
+  const createdBy = res.locals.admin.name;
+
+  logger.info("Admin: create webhook requested", { url, events, createdBy });
+
+  if (!url || typeof url !== "string" || !isValidWebhookUrl(url)) {
+    return res.status(400).json({ error: "Invalid url. Expected an http(s) URL" });
+  }
+  if (!Array.isArray(events) || events.length === 0 || !events.every((event) => WEBHOOK_EVENTS.includes(event))) {
+    return res.status(400).json({ error: "Invalid events", validEvents: WEBHOOK_EVENTS });
+  }
+
+  try {
+    const webhook = await createWebhook(url, [...new Set(events)], createdBy);
+    res.status(201).json({
+      message: "Webhook created. Store the secret now, it can't be shown again.",
+      ...webhook
+    });
+  } catch (error) {
+    logger.error("Admin: create webhook failed", {
+      url,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/admin/webhooks", requireRole("viewer"), async (req, res) => {
+  logger.info("Admin: listing webhooks");
+
+  try {
+    const webhooks = await listWebhooks();
+    res.json({ total: webhooks.length, webhooks });
+  } catch (error) {
+    logger.error("Admin: list webhooks failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/admin/webhooks/:id", requireRole("admin"), async (req, res) => {
+  const id = req.params.id as string;
+
+  logger.info("Admin: delete webhook requested", { webhookId: id });
+
+  try {
+    const deleted = await deleteWebhook(id, res.locals.admin.name);
+    if (!deleted) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ message: "Webhook deleted", id });
+  } catch (error) {
+    logger.error("Admin: delete webhook failed", {
+      webhookId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Delivery log, newest first: attempts, last status code or error, next retry.
+// ?status=pending|delivered|failed, ?limit (default 50, max 500)
+app.get("/admin/webhooks/:id/deliveries", requireRole("viewer"), async (req, res) => {
+  const id = req.params.id as string;
+  const status = req.query.status as string | undefined;
+  const limit = req.query.limit ? Number(req.query.limit) : WEBHOOK_DELIVERIES_DEFAULT_LIMIT;
+
+  logger.info("Admin: webhook deliveries requested", { webhookId: id, status });
+
+  if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+    return res.status(400).json({ error: "Invalid status", validStatuses: WEBHOOK_DELIVERY_STATUSES });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > WEBHOOK_DELIVERIES_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${WEBHOOK_DELIVERIES_MAX_LIMIT}` });
+  }
+
+  try {
+    const deliveries = await listDeliveries(id, status as "pending" | "delivered" | "failed" | undefined, limit);
+    res.json({ webhookId: id, total: deliveries.length, deliveries });
+  } catch (error) {
+    logger.error("Admin: webhook deliveries failed", {
+      webhookId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Submissions ---------------- */
+
+const SUBMISSIONS_DEFAULT_PAGE_SIZE = 50;
+const SUBMISSIONS_MAX_PAGE_SIZE = 200;
+
+// Submissions, newest first. Filters: ?email, ?owner (GitHub account), ?amended=true|false,
+// ?from/&to ISO dates on submittedAt. Paging: ?page (from 1), ?pageSize (default 50, max 200)
+app.get("/admin/submissions", requireRole("viewer"), async (req, res) => {
+  const page = req.query.page ? Number(req.query.page) : 1;
+  const pageSize = req.query.pageSize ? Number(req.query.pageSize) : SUBMISSIONS_DEFAULT_PAGE_SIZE;
+  const amended = req.query.amended as string | undefined;
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+  logger.info("Admin: submissions requested", { query: req.query });
+
+  if (!Number.isInteger(page) || page < 1) {
+    return res.status(400).json({ error: "page must be a positive integer" });
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > SUBMISSIONS_MAX_PAGE_SIZE) {
+    return res.status(400).json({ error: `pageSize must be an integer between 1 and ${SUBMISSIONS_MAX_PAGE_SIZE}` });
+  }
+  if (amended !== undefined && amended !== "true" && amended !== "false") {
+    return res.status(400).json({ error: "amended must be true or false" });
+  }
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return res.status(400).json({ error: "from and to must be ISO 8601 dates" });
+  }
+
+  try {
+    const { total, submissions } = await listSubmissions({
+      email: req.query.email as string | undefined,
+      owner: req.query.owner as string | undefined,
+      amended: amended === undefined ? undefined : amended === "true",
+      from,
+      to
+    }, page, pageSize);
+    res.json({
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      submissions
+    });
+  } catch (error) {
+    logger.error("Admin: list submissions failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Evaluations ---------------- */
+
+const sendReviewResult = <T>(res: express.Response, result: ReviewResult<T>) => {
+  if (!result.ok) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.json(result.value);
+};
+
+app.get("/admin/rubric", requireRole("viewer"), async (req, res) => {
+  logger.info("Admin: rubric requested");
+
+  try {
+    res.json(await currentRubric());
+  } catch (error) {
+    logger.error("Admin: rubric lookup failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Replace the rubric with a new version: { criteria: [{ key, label, weight?, maxScore? }] }
+app.put("/admin/rubric", requireRole("admin"), async (req, res) => {
+  const { criteria } = req.body ?? {};
+  const createdBy = res.locals.admin.name;
+
+  logger.info("Admin: rubric update requested", { criteria: Array.isArray(criteria) ? criteria.length : undefined, createdBy });
+
+  const errors = validateCriteria(criteria);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid rubric", details: errors });
+  }
+
+  try {
+    const result = await saveRubric(criteria, createdBy);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json(result.value);
+  } catch (error) {
+    logger.error("Admin: rubric update failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Candidates under review with their status. ?status=not_reviewed|in_review|advance|hold|reject
+app.get("/admin/evaluations", requireRole("viewer"), async (req, res) => {
+  const status = req.query.status as string | undefined;
+
+  logger.info("Admin: listing evaluations", { status });
+
+  if (status && !EVALUATION_STATUSES.includes(status as EvaluationStatus)) {
+    return res.status(400).json({ error: "Invalid status", validStatuses: EVALUATION_STATUSES });
+  }
+
+  try {
+    const evaluations = await listEvaluations(status as EvaluationStatus | undefined, res.locals.admin);
+    res.json({ total: evaluations.length, evaluations });
+  } catch (error) {
+    logger.error("Admin: list evaluations failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Status, decision and the caller's own sheet; other reviewers' sheets and the aggregate
+// once the caller has submitted theirs (admins always)
+app.get("/admin/evaluations/:email", requireRole("viewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: evaluation requested", { email });
+
+  try {
+    res.json(await evaluationFor(email, res.locals.admin));
+  } catch (error) {
+    logger.error("Admin: evaluation lookup failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Save the caller's draft: { scores?: { <criterion key>: 1..maxScore }, comments? }
+app.put("/admin/evaluations/:email/score-sheet", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { scores, comments } = req.body ?? {};
+
+  logger.info("Admin: score sheet save requested", { email, reviewer: res.locals.admin.name });
+
+  try {
+    sendReviewResult(res, await saveScoreSheet(email, res.locals.admin, scores, comments));
+  } catch (error) {
+    logger.error("Admin: score sheet save failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Finalize the caller's sheet; after this it can't change and the other sheets become visible
+app.post("/admin/evaluations/:email/score-sheet/submit", requireRole("reviewer"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+
+  logger.info("Admin: score sheet submit requested", { email, reviewer: res.locals.admin.name });
+
+  try {
+    sendReviewResult(res, await submitScoreSheet(email, res.locals.admin));
+  } catch (error) {
+    logger.error("Admin: score sheet submit failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// { decision: "advance" | "hold" | "reject", note? }
+app.post("/admin/evaluations/:email/decision", requireRole("admin"), async (req, res) => {
+  const email = decodeURIComponent(req.params.email as string);
+  const { decision, note } = req.body ?? {};
+
+  logger.info("Admin: evaluation decision requested", { email, decision });
+
+  if (!EVALUATION_DECISIONS.includes(decision)) {
+    return res.status(400).json({ error: "Invalid decision", validDecisions: EVALUATION_DECISIONS });
+  }
+  if (note !== undefined && typeof note !== "string") {
+    return res.status(400).json({ error: "note must be a string" });
+  }
+
+  try {
+    sendReviewResult(res, await decideEvaluation(email, decision, note, res.locals.admin.name));
+  } catch (error) {
+    logger.error("Admin: evaluation decision failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/* ---------------- ADMIN: Candidate Management ---------------- */
+
+// Add eligible candidate(s) - accepts single or array
+app.post("/admin/candidates", requireRole("admin"), async (req, res) => {
+  const { email, emails, name } = req.body;
+  
+  logger.info("Admin: add eligible candidate(s) requested", { email, emails, name });
+
+  // Support both single email and batch emails
+  const emailList: string[] = emails || (email ? [email] : []);
+  
+  if (emailList.length === 0) {
+    return res.status(400).json({ error: "Missing email or emails field" });
+  }
+
+  // Validate all emails
+  const invalidEmails = emailList.filter(e => !isValidEmail(e));
+  if (invalidEmails.length > 0) {
+    return res.status(400).json({ 
+      error: "Invalid email format", 
+      invalidEmails 
+    });
+  }
+
+  try {
+    const db = await getDb();
+    const results = {
+      added: [] as string[],
+      alreadyExists: [] as string[]
+    };
+
+    for (const candidateEmail of emailList) {
+      const normalizedEmail = candidateEmail.toLowerCase();
+      
+      // Check if already exists
+      const existing = await db
+        .collection("eligible_candidates")
+        .findOne({ email: normalizedEmail });
+
+      if (existing) {
+        results.alreadyExists.push(normalizedEmail);
+        continue;
+      }
+
+      await db.collection("eligible_candidates").insertOne({
+        email: normalizedEmail,
+        name: emailList.length === 1 ? name : undefined,
+        addedAt: new Date(),
+        addedBy: res.locals.admin.name
+      });
+      
+      results.added.push(normalizedEmail);
+      logger.info("Admin: eligible candidate added", { email: normalizedEmail });
+    }
+
+    res.json({
+      message: `Added ${results.added.length} candidate(s)`,
+      added: results.added,
+      alreadyExists: results.alreadyExists
+    });
+  } catch (error) {
+    logger.error("Admin: add candidate failed", { 
+      error: error instanceof Error ? error.message : String(error) 
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// List all eligible candidates
+app.get("/admin/candidates", requireRole("viewer"), async (req, res) => {
+  logger.info("Admin: listing eligible candidates");
+
+  try {
+    const db = await getDb();
+    
+    const candidates = await db
+      .collection("eligible_candidates")
+      .find({})
       .sort({ addedAt: -1 })
       .toArray();
 
@@ -575,7 +1871,7 @@ app.get("/admin/candidates", requireAdminKey, async (req, res) => {
 });
 
 // Remove eligible candidate
-app.delete("/admin/candidates/:email", requireAdminKey, async (req, res) => {
+app.delete("/admin/candidates/:email", requireRole("admin"), async (req, res) => {
   const email = decodeURIComponent(req.params.email as string).toLowerCase();
   
   logger.info("Admin: remove eligible candidate requested", { email });
@@ -607,7 +1903,7 @@ app.delete("/admin/candidates/:email", requireAdminKey, async (req, res) => {
 });
 
 // Check if an email is eligible (useful for quick check)
-app.get("/admin/candidates/:email/status", requireAdminKey, async (req, res) => {
+app.get("/admin/candidates/:email/status", requireRole("viewer"), async (req, res) => {
   const email = decodeURIComponent(req.params.email as string).toLowerCase();
   
   logger.info("Admin: check candidate status requested", { email });
@@ -643,20 +1939,50 @@ app.get("/admin/candidates/:email/status", requireAdminKey, async (req, res) =>
 
 // Demo endpoint - streams events without requiring a session
 // Use for quick testing or when evaluating without setting up a session
-app.get("/demo/events", (req, res) => {
+// ?focusCountry picks the country for country_focus mode (?country is a filter)
+app.get("/demo/events", rateLimit("demo", "ip", LIMITS.demoPerIp), (req, res) => {
   const mode = (req.query.mode as string) || "normal";
+  const focusCountry = req.query.focusCountry as string | undefined;
   
-  logger.info("Demo SSE connection requested", { mode });
+  logger.info("Demo SSE connection requested", { mode, focusCountry, seed: req.query.seed });
 
   if (!VALID_MODES.includes(mode as typeof VALID_MODES[number])) {
     return res.status(400).json({ error: "Invalid mode", validModes: VALID_MODES });
   }
 
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
+  if (focusCountry && !findCountry(focusCountry)) {
+    return res.status(400).json({
+      error: "Unknown focusCountry",
+      validCountries: getCatalogue().catalogue.countries.map(c => c.code)
+    });
+  }
+
+  const ctx = engineContextFromQuery(req.query);
+  if (!ctx) {
+    return res.status(400).json({ error: "Invalid epoch. Expected an ISO 8601 date" });
+  }
+
+  const { filter, errors: filterErrors } = parseFilterQuery(req.query);
+  if (filterErrors.length > 0) {
+    return res.status(400).json({ error: "Invalid filters", details: filterErrors });
+  }
+
+  const slowConsumer = parseSlowConsumerPolicy(req.query.slowConsumer);
+  if (!slowConsumer) {
+    return res.status(400).json({ error: "Invalid slowConsumer policy", validPolicies: SLOW_CONSUMER_POLICIES });
+  }
+
+  if (!acquireDemoStream(req, res)) {
+    return;
+  }
 
-  res.write(`data: ${JSON.stringify({ type: "demo_connected", mode })}\n\n`);
+  openSseStream(res);
+
+  const traffic = { mode: mode as EventMode, country: focusCountry };
+  const sink = backpressureSink(sseWriter(res), slowConsumer, "demo", "demo");
+  openStreams.inc({ transport: "demo" });
+  const connected: ControlEvent = { type: "demo_connected", mode: traffic.mode, seed: ctx.seed, slowConsumer };
+  sink.send({ kind: "control", data: JSON.stringify(connected) });
 
   let eventCount = 0;
   let isConnectionClosed = false;
@@ -665,23 +1991,28 @@ app.get("/demo/events", (req, res) => {
   const sendEvent = () => {
     if (isConnectionClosed) return;
 
-    const event = generatePayment(mode as any);
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-    eventCount++;
+    const event = generatePayment(traffic, ctx);
+    eventsGenerated.inc({ mode: traffic.mode, stream: "demo" });
+    const data = renderEvent(event, filter);
+    if (data !== null) {
+      sink.send({ kind: "payment", data });
+      eventCount++;
 
-    if (eventCount % 100 === 0) {
-      logger.debug("Demo SSE events streamed", { eventCount, mode });
+      if (eventCount % 100 === 0) {
+        logger.debug("Demo SSE events streamed", { eventCount, mode });
+      }
     }
 
-    activeTimeout = setTimeout(sendEvent, intervalForMode(mode as any));
+    activeTimeout = setTimeout(sendEvent, nextDelay(traffic, ctx));
   };
 
-  activeTimeout = setTimeout(sendEvent, intervalForMode(mode as any));
+  activeTimeout = setTimeout(sendEvent, nextDelay(traffic, ctx));
 
   req.on("close", () => {
-    logger.info("Demo SSE connection closed", { totalEvents: eventCount, mode });
+    logger.info("Demo SSE connection closed", { totalEvents: eventCount, mode, dropped: sink.dropped() });
     isConnectionClosed = true;
     if (activeTimeout) clearTimeout(activeTimeout);
+    openStreams.dec({ transport: "demo" });
   });
 });
 
@@ -712,27 +2043,27 @@ app.get("/info", (_, res) => {
   
       assignment: {
         name: "Payport Live Dashboard",
-        durationHours: 8,
+        durationHours: ASSIGNMENT_DURATION / 3600000,
         whatYouAreBuilding:
           "A real-time dashboard that shows live payment activity across the globe.",
-        whatWeCareAbout: [
-          "How you think about real-time data",
-          "How you manage state under constant updates",
-          "Performance and rendering discipline",
-          "UX decisions for always-on screens",
-          "Trade-offs you consciously make"
-        ],
+        // The same criteria reviewers score against
+        whatWeCareAbout: DEFAULT_CRITERIA_LABELS,
         whatWeDontCareAbout: [
           "Over-engineering",
           "Copy-paste architectures"
         ],
-        mindset: "Build something you'd be proud to ship internally at a fast-moving fintech."
+        mindset: "Build something you'd be proud to ship internally at a fast-moving fintech.",
+        submission: "Send githubRepo (a repository under the GitHub account you started with), and optionally deployedUrl and notes, to /stop. PUT /submission submits or amends until amendableUntil, shortly after the assignment ends."
       },
   
       eventEngine: {
         realtime: true,
-        transport: "Server-Sent Events (SSE)",
-        persistence: "None. Events are ephemeral by design.",
+        transport: "Server-Sent Events (SSE) at /events, or WebSocket at /ws with control messages",
+        authentication: "Pass the token returned by /start as Authorization: Bearer <token> or ?token=<token>.",
+        connections: `Every connection for your session (up to ${MAX_CONNECTIONS_PER_SESSION}) receives the same event stream, so multiple screens agree.`,
+        controlEvents: "Over SSE, control frames are named events (connected, mode_changed, time_warning, session_ended, incident_started, ...) while payments are unnamed messages. Idle streams get a comment heartbeat every 15 seconds.",
+        slowConsumer: "If your client reads slower than events arrive, ?slowConsumer=drop_oldest (default), coalesce or disconnect decides what the server does with the backlog.",
+        persistence: "Every event sent to your session is logged so reviewers see exactly what your dashboard received. Recent events are replayed when you reconnect with Last-Event-ID.",
         modes: [
           "normal",
           "high_traffic",
@@ -740,6 +2071,14 @@ app.get("/info", (_, res) => {
           "payment_spike",
           "chaos"
         ],
+        lifecycle: {
+          happyPath: ["initiated", "authorized", "captured"],
+          otherStates: ["pending", "declined", "timed_out", "refunded", "chargeback"],
+          note: "Each state change is its own event sharing a paymentId. Transitions can arrive late or out of order."
+        },
+        traffic: "Arrivals are random (Poisson) and follow each country's local time of day, so volume and country mix shift through the day.",
+        countries: "country is an ISO 3166-1 alpha-2 code. country_focus mode takes a country in /test/mode.",
+        amounts: "amount is in the payment's own currency; normalizedAmount is the same value in normalizedCurrency (USD by default), so totals can be summed across currencies.",
         warning:
           "If traffic spikes or events arrive faster than your UI can handle, that's intentional."
       },
@@ -764,14 +2103,27 @@ async function startServer() {
   try {
     // Initialize session store (creates indexes)
     await initSessionStore();
+    await initScenarioStore();
+    await initCatalogue();
+    await initEventLog();
+    await initAdminKeys();
+    await initAssignmentClock();
+    await initWebhooks();
+    await initSubmissions();
+    await initReviews();
     
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       logger.info("Server started", { 
         port: PORT, 
         environment: process.env.NODE_ENV || "development",
         nodeVersion: process.version
       });
     });
+    // Upgrades skip Express; borrow its req.ip so TRUST_PROXY applies to WebSocket rate limits too
+    attachWebSocketServer(server, (req) => (Object.setPrototypeOf(req, app.request) as express.Request).ip);
+    onAssignmentExpired((expiry) => emitWebhookEvent("assignment.expired", expiry));
+    startExpirySweeper();
+    startWebhookDelivery();
   } catch (error) {
     logger.error("Failed to start server", { 
       error: error instanceof Error ? error.message : String(error) 
@@ -785,12 +2137,16 @@ startServer();
 // Graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received, shutting down gracefully");
-  process.exit(0);
+  stopExpirySweeper();
+  stopWebhookDelivery();
+  flushEventLog().finally(() => process.exit(0));
 });
 
 process.on("SIGINT", () => {
   logger.info("SIGINT received, shutting down gracefully");
-  process.exit(0);
+  stopExpirySweeper();
+  stopWebhookDelivery();
+  flushEventLog().finally(() => process.exit(0));
 });
 
 process.on("unhandledRejection", (reason, promise) => {
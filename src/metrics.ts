@@ -0,0 +1,84 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// Prometheus metrics for the engine, served at /metrics. Labels never include emails or
+// other per-candidate values so the series count stays bounded.
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: "payport_" });
+
+export const httpRequestDuration = new Histogram({
+  name: "payport_http_request_duration_seconds",
+  help: "HTTP request latency (streams are observed when they close)",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry]
+});
+
+export const openStreams = new Gauge({
+  name: "payport_open_streams",
+  help: "Open stream connections",
+  labelNames: ["transport"],
+  registers: [registry]
+});
+
+export const activeSessionStreams = new Gauge({
+  name: "payport_active_session_streams",
+  help: "Sessions with a running generator loop",
+  registers: [registry]
+});
+
+export const eventsGenerated = new Counter({
+  name: "payport_events_generated_total",
+  help: "Payment events generated, by traffic mode",
+  labelNames: ["mode", "stream"],
+  registers: [registry]
+});
+
+export const controlFramesSent = new Counter({
+  name: "payport_control_frames_total",
+  help: "Control frames published to session streams",
+  labelNames: ["type"],
+  registers: [registry]
+});
+
+export const slowConsumerFrames = new Counter({
+  name: "payport_slow_consumer_frames_total",
+  help: "Payment frames a slow connection didn't receive individually",
+  labelNames: ["transport", "outcome"],
+  registers: [registry]
+});
+
+export const slowConsumerDisconnects = new Counter({
+  name: "payport_slow_consumer_disconnects_total",
+  help: "Connections closed by the disconnect slow-consumer policy",
+  labelNames: ["transport"],
+  registers: [registry]
+});
+
+export const sessionCacheLookups = new Counter({
+  name: "payport_session_cache_lookups_total",
+  help: "getSession calls served from the in-process cache (hit) or MongoDB (miss)",
+  labelNames: ["result"],
+  registers: [registry]
+});
+
+export const mongoCommandDuration = new Histogram({
+  name: "payport_mongo_command_duration_seconds",
+  help: "MongoDB command latency",
+  labelNames: ["command", "collection"],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [registry]
+});
+
+export const mongoCommandErrors = new Counter({
+  name: "payport_mongo_command_errors_total",
+  help: "MongoDB commands that failed",
+  labelNames: ["command", "collection"],
+  registers: [registry]
+});
+
+export const rateLimitedRequests = new Counter({
+  name: "payport_rate_limited_requests_total",
+  help: "Requests refused with 429, by limit",
+  labelNames: ["limit"],
+  registers: [registry]
+});
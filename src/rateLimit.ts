@@ -0,0 +1,222 @@
+import { Request, Response, NextFunction } from "express";
+import { getDb } from "./db";
+import { rateLimitedRequests } from "./metrics";
+import logger from "./logger";
+
+// Token buckets: each key holds up to `capacity` tokens, refilled continuously at
+// capacity / perSeconds; a request takes one token or is refused with Retry-After.
+export type BucketSpec = {
+  capacity: number;
+  perSeconds: number;
+};
+
+export type TakeResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+// Where bucket state lives. memory (default) is per process; mongo shares limits
+// between instances behind a load balancer.
+export interface RateLimitStore {
+  take(key: string, spec: BucketSpec): Promise<TakeResult>;
+}
+
+function retryAfter(tokens: number, spec: BucketSpec): number {
+  return Math.max(1, Math.ceil((1 - tokens) * spec.perSeconds / spec.capacity));
+}
+
+type MemoryBucket = { tokens: number; updatedAt: number; spec: BucketSpec };
+
+class MemoryStore implements RateLimitStore {
+  private buckets = new Map<string, MemoryBucket>();
+
+  constructor() {
+    // Forget buckets that have refilled completely; they behave the same as new ones
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, bucket] of this.buckets) {
+        if ((now - bucket.updatedAt) / 1000 >= bucket.spec.perSeconds) {
+          this.buckets.delete(key);
+        }
+      }
+    }, 60000).unref();
+  }
+
+  async take(key: string, spec: BucketSpec): Promise<TakeResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: spec.capacity, updatedAt: now, spec };
+    const refill = (now - bucket.updatedAt) / 1000 * spec.capacity / spec.perSeconds;
+    bucket.tokens = Math.min(spec.capacity, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: retryAfter(bucket.tokens, spec) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+}
+
+type MongoBucket = {
+  _id: string;
+  tokens: number;
+  updatedAt: Date;
+  allowed: boolean;
+  expiresAt: Date;
+};
+
+class MongoStore implements RateLimitStore {
+  private indexed: Promise<unknown> | null = null;
+
+  private async collection() {
+    const db = await getDb();
+    const collection = db.collection<MongoBucket>("rate_limits");
+    // Idle buckets are removed by MongoDB once they would have refilled
+    this.indexed ??= collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    await this.indexed;
+    return collection;
+  }
+
+  // Refill and take in one atomic update so concurrent instances can't overspend a bucket
+  async take(key: string, spec: BucketSpec): Promise<TakeResult> {
+    const collection = await this.collection();
+    const now = new Date();
+    const refillPerMs = spec.capacity / spec.perSeconds / 1000;
+
+    const bucket = await collection.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            tokens: {
+              $min: [
+                spec.capacity,
+                {
+                  $add: [
+                    { $ifNull: ["$tokens", spec.capacity] },
+                    { $multiply: [{ $subtract: [now, { $ifNull: ["$updatedAt", now] }] }, refillPerMs] }
+                  ]
+                }
+              ]
+            },
+            updatedAt: now
+          }
+        },
+        { $set: { allowed: { $gte: ["$tokens", 1] } } },
+        {
+          $set: {
+            tokens: { $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"] },
+            expiresAt: new Date(now.getTime() + spec.perSeconds * 1000)
+          }
+        }
+      ],
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!bucket || !bucket.allowed) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: retryAfter(bucket?.tokens ?? 0, spec) };
+    }
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+}
+
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE === "mongo" ? "mongo" : "memory";
+const store: RateLimitStore = RATE_LIMIT_STORE === "mongo" ? new MongoStore() : new MemoryStore();
+
+// Limits on the public routes. /start is once per candidate, so it can be tight.
+export const LIMITS = {
+  startPerIp: { capacity: 5, perSeconds: 600 },
+  startPerEmail: { capacity: 3, perSeconds: 3600 },
+  modePerIp: { capacity: 60, perSeconds: 60 },
+  modePerEmail: { capacity: 30, perSeconds: 60 },
+  demoPerIp: { capacity: 10, perSeconds: 60 },
+  wsConnectPerIp: { capacity: 30, perSeconds: 60 }
+} satisfies Record<string, BucketSpec>;
+
+// Concurrent /demo/events streams across all clients
+const DEMO_MAX_STREAMS = Number(process.env.DEMO_MAX_STREAMS) || 50;
+// Concurrent demo streams one IP may hold, so no single client can take every slot
+const DEMO_MAX_STREAMS_PER_IP = Number(process.env.DEMO_MAX_STREAMS_PER_IP) || 3;
+// What to tell a client refused because the demo streams are all taken
+const DEMO_RETRY_AFTER_SECONDS = 30;
+let demoStreams = 0;
+const demoStreamsByIp = new Map<string, number>();
+
+function tooManyRequests(res: Response, limit: string, retryAfterSeconds: number, message: string) {
+  rateLimitedRequests.inc({ limit });
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error: message, retryAfterSeconds });
+}
+
+// Take one token from a caller's bucket. The middleware and the WebSocket server share the
+// keys, so a client gets the same limits over either transport. A store failure lets the
+// request through rather than locking everyone out.
+export async function takeToken(name: string, by: "ip" | "email", subject: string, spec: BucketSpec): Promise<TakeResult> {
+  try {
+    const result = await store.take(`${name}:${by}:${subject.toLowerCase()}`, spec);
+    if (!result.allowed) {
+      rateLimitedRequests.inc({ limit: name });
+      logger.warn("Rate limit exceeded", { limit: name, by, subject, retryAfterSeconds: result.retryAfterSeconds });
+    }
+    return result;
+  } catch (error) {
+    logger.error("Rate limit check failed, allowing request", {
+      limit: name,
+      store: RATE_LIMIT_STORE,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { allowed: true, remaining: spec.capacity, retryAfterSeconds: 0 };
+  }
+}
+
+// Middleware taking one token from the caller's bucket. by "email" keys on the body's email
+// (or the one a session token resolved to); requests without one fall through to the IP limit.
+export function rateLimit(name: string, by: "ip" | "email", spec: BucketSpec) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const subject = by === "ip"
+      ? req.ip
+      : (res.locals.email ?? req.body?.email)?.toString();
+    if (!subject) {
+      return next();
+    }
+
+    const result = await takeToken(name, by, subject, spec);
+    if (!result.allowed) {
+      res.setHeader("Retry-After", String(result.retryAfterSeconds));
+      return res.status(429).json({ error: "Too many requests. Try again later.", retryAfterSeconds: result.retryAfterSeconds });
+    }
+    res.setHeader("RateLimit-Remaining", String(result.remaining));
+    next();
+  };
+}
+
+// Reserve one of the demo stream slots (global and per IP), released when the connection
+// closes. Responds 429 and returns false when the caller's or the global slots are all taken.
+export function acquireDemoStream(req: Request, res: Response): boolean {
+  const ip = req.ip ?? "unknown";
+  const held = demoStreamsByIp.get(ip) ?? 0;
+  if (held >= DEMO_MAX_STREAMS_PER_IP) {
+    logger.warn("Demo stream refused: per-IP limit reached", { ip, limit: DEMO_MAX_STREAMS_PER_IP });
+    tooManyRequests(res, "demoStreamsPerIp", DEMO_RETRY_AFTER_SECONDS, "Too many demo streams open from your address. Close one and try again.");
+    return false;
+  }
+  if (demoStreams >= DEMO_MAX_STREAMS) {
+    logger.warn("Demo stream refused: global limit reached", { ip, limit: DEMO_MAX_STREAMS });
+    tooManyRequests(res, "demoStreams", DEMO_RETRY_AFTER_SECONDS, "Too many demo streams open. Try again later.");
+    return false;
+  }
+  demoStreams++;
+  demoStreamsByIp.set(ip, held + 1);
+  res.on("close", () => {
+    demoStreams--;
+    const remaining = (demoStreamsByIp.get(ip) ?? 1) - 1;
+    if (remaining > 0) {
+      demoStreamsByIp.set(ip, remaining);
+    } else {
+      demoStreamsByIp.delete(ip);
+    }
+  });
+  return true;
+}
@@ -0,0 +1,92 @@
+import { StreamFrame } from "./types";
+import logger from "./logger";
+
+// Number of recent frames kept per session for Last-Event-ID replay
+const REPLAY_BUFFER_SIZE = Number(process.env.REPLAY_BUFFER_SIZE) || 1000;
+
+type BufferedFrame = StreamFrame & { id: number };
+
+// Fixed-size ring of the most recent frames sent to a session
+type ReplayBuffer = {
+  nextId: number;
+  frames: BufferedFrame[];
+  head: number;
+};
+
+export type ReplayResult = {
+  frames: BufferedFrame[];
+  // true when some frames after lastEventId are no longer buffered (or ids were reset by a restart)
+  gap: boolean;
+};
+
+const buffers = new Map<string, ReplayBuffer>();
+
+function getBuffer(email: string): ReplayBuffer {
+  let buffer = buffers.get(email);
+  if (!buffer) {
+    buffer = { nextId: 1, frames: [], head: 0 };
+    buffers.set(email, buffer);
+  }
+  return buffer;
+}
+
+// Store a serialized frame under the next monotonic id
+export function recordFrame(email: string, kind: StreamFrame["kind"], data: string): BufferedFrame {
+  const buffer = getBuffer(email);
+  const frame = { id: buffer.nextId++, kind, data };
+
+  if (buffer.frames.length < REPLAY_BUFFER_SIZE) {
+    buffer.frames.push(frame);
+  } else {
+    buffer.frames[buffer.head] = frame;
+    buffer.head = (buffer.head + 1) % REPLAY_BUFFER_SIZE;
+  }
+
+  return frame;
+}
+
+function orderedFrames(buffer: ReplayBuffer): BufferedFrame[] {
+  return [
+    ...buffer.frames.slice(buffer.head),
+    ...buffer.frames.slice(0, buffer.head)
+  ];
+}
+
+// Frames recorded after lastEventId, oldest first
+export function framesSince(email: string, lastEventId: number): ReplayResult {
+  const buffer = buffers.get(email);
+  if (!buffer || buffer.frames.length === 0) {
+    return { frames: [], gap: lastEventId > 0 };
+  }
+
+  const ordered = orderedFrames(buffer);
+  const oldestId = ordered[0].id;
+  const latestId = buffer.nextId - 1;
+
+  // An id from the future means our counter was reset (server restart) - nothing to replay
+  if (lastEventId > latestId) {
+    logger.warn("Replay requested from unknown event id", { email, lastEventId, latestId });
+    return { frames: [], gap: true };
+  }
+
+  return {
+    frames: ordered.filter(f => f.id > lastEventId),
+    gap: lastEventId < oldestId - 1
+  };
+}
+
+// The last `limit` frames, oldest first (used for snapshots)
+export function recentFrames(email: string, limit: number): BufferedFrame[] {
+  const buffer = buffers.get(email);
+  return buffer ? orderedFrames(buffer).slice(-limit) : [];
+}
+
+// Id of the most recent frame recorded for a session (0 before the first one)
+export function latestFrameId(email: string): number {
+  const buffer = buffers.get(email);
+  return buffer ? buffer.nextId - 1 : 0;
+}
+
+export function clearReplayBuffer(email: string) {
+  buffers.delete(email);
+}
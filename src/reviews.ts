@@ -0,0 +1,454 @@
+import { MongoServerError } from "mongodb";
+import {
+  AdminIdentity,
+  Evaluation,
+  EvaluationDecision,
+  EvaluationStatus,
+  Rubric,
+  RubricCriterion,
+  ScoreSheet
+} from "./types";
+import { getDb } from "./db";
+import { BOOTSTRAP_KEY_ID } from "./adminKeys";
+import { isRecord } from "./utils";
+import logger from "./logger";
+
+// Take-home evaluation: a versioned rubric, one score sheet per reviewer per candidate, and
+// the hiring decision. Reviews are blind: a reviewer sees other reviewers' scores, the
+// aggregate and any decision only once their own sheet is submitted. Admins see everything.
+
+const RUBRICS_COLLECTION = "rubrics";
+const SCORE_SHEETS_COLLECTION = "score_sheets";
+const EVALUATIONS_COLLECTION = "evaluations";
+
+export const EVALUATION_DECISIONS: EvaluationDecision[] = ["advance", "hold", "reject"];
+export const EVALUATION_STATUSES: EvaluationStatus[] = ["not_reviewed", "in_review", ...EVALUATION_DECISIONS];
+
+const DEFAULT_MAX_SCORE = 5;
+const MAX_COMMENTS_LENGTH = 5000;
+
+// Used until an admin stores a rubric of their own; these are what /info tells candidates we care about
+const DEFAULT_RUBRIC: Rubric = {
+  version: 0,
+  criteria: [
+    { key: "realtime_thinking", label: "How you think about real-time data", weight: 1, maxScore: DEFAULT_MAX_SCORE },
+    { key: "state_management", label: "How you manage state under constant updates", weight: 1, maxScore: DEFAULT_MAX_SCORE },
+    { key: "rendering_performance", label: "Performance and rendering discipline", weight: 1, maxScore: DEFAULT_MAX_SCORE },
+    { key: "always_on_ux", label: "UX decisions for always-on screens", weight: 1, maxScore: DEFAULT_MAX_SCORE },
+    { key: "tradeoffs", label: "Trade-offs you consciously make", weight: 1, maxScore: DEFAULT_MAX_SCORE }
+  ],
+  createdAt: new Date(0),
+  createdBy: "default"
+};
+
+export const DEFAULT_CRITERIA_LABELS = DEFAULT_RUBRIC.criteria.map((criterion) => criterion.label);
+
+export type ReviewResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string };
+
+export type CriterionAggregate = {
+  key: string;
+  label: string;
+  maxScore: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+};
+
+export type ScoreAggregate = {
+  reviewers: number;
+  criteria: CriterionAggregate[];
+  // Weighted mean of every criterion's mean as a share of its maxScore, 0..100
+  overallPercent: number | null;
+};
+
+export type EvaluationView = {
+  email: string;
+  status: EvaluationStatus;
+  decision?: Evaluation;
+  submittedSheets: number;
+  draftSheets: number;
+  // True while the caller can't see other reviewers' scores yet
+  blind: boolean;
+  mySheet: ScoreSheet | null;
+  scoreSheets?: ScoreSheet[];
+  aggregate?: ScoreAggregate;
+};
+
+// Score sheets belong to one reviewer; the shared bootstrap key would merge everyone's
+function personalKeyRequired(reviewer: AdminIdentity): ReviewResult<never> | null {
+  return reviewer.keyId === BOOTSTRAP_KEY_ID
+    ? { ok: false, status: 403, error: "Scoring needs a personal admin key. Create one with POST /admin/keys." }
+    : null;
+}
+
+async function getRubrics() {
+  const db = await getDb();
+  return db.collection<Rubric>(RUBRICS_COLLECTION);
+}
+
+async function getScoreSheets() {
+  const db = await getDb();
+  return db.collection<ScoreSheet>(SCORE_SHEETS_COLLECTION);
+}
+
+async function getEvaluations() {
+  const db = await getDb();
+  return db.collection<Evaluation>(EVALUATIONS_COLLECTION);
+}
+
+// Create indexes (call once on startup)
+export async function initReviews() {
+  const rubrics = await getRubrics();
+  await rubrics.createIndex({ version: -1 }, { unique: true });
+  const sheets = await getScoreSheets();
+  await sheets.createIndex({ email: 1, reviewerKeyId: 1 }, { unique: true });
+  const evaluations = await getEvaluations();
+  await evaluations.createIndex({ email: 1 }, { unique: true });
+  logger.info("Review store initialized with indexes");
+}
+
+export async function currentRubric(): Promise<Rubric> {
+  const rubrics = await getRubrics();
+  const latest = await rubrics.findOne({}, { projection: { _id: 0 }, sort: { version: -1 } });
+  return latest ?? DEFAULT_RUBRIC;
+}
+
+// Problems with a proposed criteria list (empty when it is valid)
+export function validateCriteria(input: unknown): string[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    return ["criteria must be a non-empty array"];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  input.forEach((value: unknown, i) => {
+    const criterion = isRecord(value) ? value : {};
+    if (typeof criterion.key !== "string" || !/^[a-z0-9_]+$/.test(criterion.key)) {
+      errors.push(`criteria[${i}].key must be lowercase letters, digits and underscores`);
+    } else if (keys.has(criterion.key)) {
+      errors.push(`criteria[${i}].key "${criterion.key}" is used more than once`);
+    } else {
+      keys.add(criterion.key);
+    }
+    if (typeof criterion.label !== "string" || !criterion.label.trim()) {
+      errors.push(`criteria[${i}].label is required`);
+    }
+    if (criterion.weight !== undefined && (typeof criterion.weight !== "number" || !(criterion.weight > 0))) {
+      errors.push(`criteria[${i}].weight must be a positive number`);
+    }
+    if (criterion.maxScore !== undefined
+      && (typeof criterion.maxScore !== "number" || !Number.isInteger(criterion.maxScore) || criterion.maxScore < 2 || criterion.maxScore > 10)) {
+      errors.push(`criteria[${i}].maxScore must be an integer between 2 and 10`);
+    }
+  });
+  return errors;
+}
+
+// Store a new rubric version; sheets already submitted keep the version they were scored against.
+// Two saves racing for the same version number collide on the unique index: the later gets 409.
+export async function saveRubric(criteria: RubricCriterion[], createdBy: string): Promise<ReviewResult<Rubric>> {
+  const rubrics = await getRubrics();
+  const current = await currentRubric();
+  const rubric: Rubric = {
+    version: current.version + 1,
+    criteria: criteria.map(({ key, label, weight, maxScore }) => ({
+      key,
+      label: label.trim(),
+      weight: weight ?? 1,
+      maxScore: maxScore ?? DEFAULT_MAX_SCORE
+    })),
+    createdAt: new Date(),
+    createdBy
+  };
+
+  try {
+    await rubrics.insertOne({ ...rubric });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return { ok: false, status: 409, error: "The rubric was changed at the same time. Reload it and try again." };
+    }
+    throw error;
+  }
+  logger.info("Rubric saved", { version: rubric.version, criteria: rubric.criteria.length, createdBy });
+  return { ok: true, value: rubric };
+}
+
+function validateScores(rubric: Rubric, scores: unknown): string | null {
+  if (typeof scores !== "object" || scores === null || Array.isArray(scores)) {
+    return "scores must be an object of criterion key to score";
+  }
+  for (const [key, score] of Object.entries(scores)) {
+    const criterion = rubric.criteria.find((c) => c.key === key);
+    if (!criterion) {
+      return `Unknown criterion "${key}"`;
+    }
+    if (!Number.isInteger(score) || score < 1 || score > criterion.maxScore) {
+      return `Score for "${key}" must be an integer between 1 and ${criterion.maxScore}`;
+    }
+  }
+  return null;
+}
+
+// Create or update the reviewer's own draft. Scores may be partial; they are merged into
+// what the draft already holds. A submitted sheet is final.
+export async function saveScoreSheet(
+  email: string,
+  reviewer: AdminIdentity,
+  scores: unknown,
+  comments: unknown
+): Promise<ReviewResult<ScoreSheet>> {
+  const refusal = personalKeyRequired(reviewer);
+  if (refusal) {
+    return refusal;
+  }
+  if (comments !== undefined && (typeof comments !== "string" || comments.length > MAX_COMMENTS_LENGTH)) {
+    return { ok: false, status: 400, error: `comments must be a string of at most ${MAX_COMMENTS_LENGTH} characters` };
+  }
+
+  const db = await getDb();
+  if (!(await db.collection("assignments").findOne({ email }))) {
+    return { ok: false, status: 404, error: "No assignment found for this candidate" };
+  }
+
+  const sheets = await getScoreSheets();
+  const existing = await sheets.findOne({ email, reviewerKeyId: reviewer.keyId });
+  if (existing?.status === "submitted") {
+    return { ok: false, status: 409, error: "Score sheet already submitted" };
+  }
+
+  // A draft started against an older rubric is moved onto the current one
+  const rubric = await currentRubric();
+  const scoreError = validateScores(rubric, scores ?? {});
+  if (scoreError) {
+    return { ok: false, status: 400, error: scoreError };
+  }
+  const keptScores = Object.fromEntries(
+    Object.entries(existing?.scores ?? {}).filter(([key]) => rubric.criteria.some((c) => c.key === key))
+  );
+
+  // Only a draft is updated: if the sheet was submitted meanwhile, the upsert collides with
+  // it on the unique index instead of turning it back into a draft
+  let sheet: ScoreSheet | null;
+  try {
+    sheet = await sheets.findOneAndUpdate(
+      { email, reviewerKeyId: reviewer.keyId, status: "draft" },
+      {
+        $set: {
+          reviewer: reviewer.name,
+          rubricVersion: rubric.version,
+          scores: { ...keptScores, ...(scores as Record<string, number> | undefined) },
+          ...(comments !== undefined && { comments: comments as string }),
+          status: "draft",
+          updatedAt: new Date()
+        }
+      },
+      { upsert: true, projection: { _id: 0 }, returnDocument: "after" }
+    );
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return { ok: false, status: 409, error: "Score sheet already submitted" };
+    }
+    throw error;
+  }
+  if (!sheet) {
+    throw new Error("Score sheet not found");
+  }
+
+  logger.info("Score sheet saved", { email, reviewer: reviewer.name, scored: Object.keys(sheet.scores).length });
+  return { ok: true, value: sheet };
+}
+
+// Finalize the reviewer's sheet; every criterion must be scored
+export async function submitScoreSheet(email: string, reviewer: AdminIdentity): Promise<ReviewResult<ScoreSheet>> {
+  const refusal = personalKeyRequired(reviewer);
+  if (refusal) {
+    return refusal;
+  }
+
+  const sheets = await getScoreSheets();
+  const sheet = await sheets.findOne({ email, reviewerKeyId: reviewer.keyId }, { projection: { _id: 0 } });
+  if (!sheet) {
+    return { ok: false, status: 404, error: "No score sheet to submit. Save scores first." };
+  }
+  if (sheet.status === "submitted") {
+    return { ok: false, status: 409, error: "Score sheet already submitted" };
+  }
+
+  const rubric = await currentRubric();
+  if (sheet.rubricVersion !== rubric.version) {
+    return { ok: false, status: 409, error: "The rubric has changed since this sheet was saved. Save it again to review the scores." };
+  }
+  const missing = rubric.criteria.filter((criterion) => sheet.scores[criterion.key] === undefined).map((c) => c.key);
+  if (missing.length > 0) {
+    return { ok: false, status: 400, error: `Missing scores for: ${missing.join(", ")}` };
+  }
+
+  const submittedAt = new Date();
+  await sheets.updateOne(
+    { email, reviewerKeyId: reviewer.keyId, status: "draft" },
+    { $set: { status: "submitted", submittedAt, updatedAt: submittedAt } }
+  );
+
+  logger.info("Score sheet submitted", { email, reviewer: reviewer.name, rubricVersion: rubric.version });
+  return { ok: true, value: { ...sheet, status: "submitted", submittedAt, updatedAt: submittedAt } };
+}
+
+// Per-criterion spread and the weighted overall score across submitted sheets. Criteria
+// follow the current rubric; sheets from older versions count for the keys they share.
+export function aggregateScores(rubric: Rubric, sheets: ScoreSheet[]): ScoreAggregate {
+  const criteria = rubric.criteria.map((criterion) => {
+    const scores = sheets.map((sheet) => sheet.scores[criterion.key]).filter((score) => score !== undefined);
+    return {
+      key: criterion.key,
+      label: criterion.label,
+      maxScore: criterion.maxScore,
+      mean: scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length * 100) / 100 : null,
+      min: scores.length > 0 ? Math.min(...scores) : null,
+      max: scores.length > 0 ? Math.max(...scores) : null
+    };
+  });
+
+  let weighted = 0;
+  let totalWeight = 0;
+  rubric.criteria.forEach((criterion, i) => {
+    const mean = criteria[i].mean;
+    if (mean !== null) {
+      weighted += criterion.weight * mean / criterion.maxScore;
+      totalWeight += criterion.weight;
+    }
+  });
+
+  return {
+    reviewers: sheets.length,
+    criteria,
+    overallPercent: totalWeight > 0 ? Math.round(weighted / totalWeight * 1000) / 10 : null
+  };
+}
+
+function statusOf(decision: Evaluation | null, submittedSheets: number): EvaluationStatus {
+  if (decision) {
+    return decision.decision;
+  }
+  return submittedSheets > 0 ? "in_review" : "not_reviewed";
+}
+
+// The evaluation as the calling admin is allowed to see it
+export async function evaluationFor(email: string, viewer: AdminIdentity): Promise<EvaluationView> {
+  const sheets = await getScoreSheets();
+  const evaluations = await getEvaluations();
+  const [all, decision] = await Promise.all([
+    sheets.find({ email }, { projection: { _id: 0 } }).sort({ submittedAt: 1 }).toArray(),
+    evaluations.findOne({ email }, { projection: { _id: 0 } })
+  ]);
+
+  const submitted = all.filter((sheet) => sheet.status === "submitted");
+  const mySheet = all.find((sheet) => sheet.reviewerKeyId === viewer.keyId) ?? null;
+  const blind = viewer.role !== "admin" && mySheet?.status !== "submitted";
+
+  return {
+    email,
+    // A decision would bias the review as much as the scores would
+    status: statusOf(blind ? null : decision, submitted.length),
+    submittedSheets: submitted.length,
+    draftSheets: all.length - submitted.length,
+    blind,
+    mySheet,
+    ...(!blind && {
+      ...(decision && { decision }),
+      scoreSheets: submitted,
+      aggregate: aggregateScores(await currentRubric(), submitted)
+    })
+  };
+}
+
+// Record (or change) the outcome for a candidate
+export async function decideEvaluation(
+  email: string,
+  decision: EvaluationDecision,
+  note: string | undefined,
+  decidedBy: string
+): Promise<ReviewResult<Evaluation>> {
+  const sheets = await getScoreSheets();
+  if ((await sheets.countDocuments({ email, status: "submitted" })) === 0) {
+    return { ok: false, status: 409, error: "No submitted score sheets yet" };
+  }
+
+  const evaluation: Evaluation = {
+    email,
+    decision,
+    ...(note && { note }),
+    decidedBy,
+    decidedAt: new Date()
+  };
+  const evaluations = await getEvaluations();
+  await evaluations.replaceOne({ email }, { ...evaluation }, { upsert: true });
+
+  logger.info("Evaluation decided", { email, decision, decidedBy });
+  return { ok: true, value: evaluation };
+}
+
+// Every candidate with a score sheet or a decision, optionally narrowed to one status.
+// Scores are included only for admins, and decisions only where the caller may see them,
+// so the list can't break blind review.
+export async function listEvaluations(status: EvaluationStatus | undefined, viewer: AdminIdentity) {
+  const sheets = await getScoreSheets();
+  const evaluations = await getEvaluations();
+  const [counts, decisions, rubric, reviewed, scored] = await Promise.all([
+    sheets
+      .aggregate<{ _id: string; submitted: number; drafts: number }>([
+        {
+          $group: {
+            _id: "$email",
+            submitted: { $sum: { $cond: [{ $eq: ["$status", "submitted"] }, 1, 0] } },
+            drafts: { $sum: { $cond: [{ $eq: ["$status", "draft"] }, 1, 0] } }
+          }
+        }
+      ])
+      .toArray(),
+    evaluations.find({}, { projection: { _id: 0 } }).toArray(),
+    currentRubric(),
+    // Candidates the caller has submitted a sheet for
+    sheets.distinct("email", { reviewerKeyId: viewer.keyId, status: "submitted" }),
+    // Every submitted sheet, for the admins' overall scores
+    viewer.role === "admin" ? sheets.find({ status: "submitted" }, { projection: { _id: 0 } }).toArray() : []
+  ]);
+
+  const submittedByEmail = new Map<string, ScoreSheet[]>();
+  for (const sheet of scored) {
+    const forEmail = submittedByEmail.get(sheet.email);
+    if (forEmail) {
+      forEmail.push(sheet);
+    } else {
+      submittedByEmail.set(sheet.email, [sheet]);
+    }
+  }
+
+  const emails = new Set([...counts.map((c) => c._id), ...decisions.map((d) => d.email)]);
+  const rows = [];
+  for (const email of emails) {
+    const count = counts.find((c) => c._id === email);
+    const blind = viewer.role !== "admin" && !reviewed.includes(email);
+    const decision = blind ? null : decisions.find((d) => d.email === email) ?? null;
+    const rowStatus = statusOf(decision, count?.submitted ?? 0);
+    if (status && rowStatus !== status) {
+      continue;
+    }
+
+    const overallPercent = viewer.role === "admin"
+      ? aggregateScores(rubric, submittedByEmail.get(email) ?? []).overallPercent
+      : undefined;
+
+    rows.push({
+      email,
+      status: rowStatus,
+      submittedSheets: count?.submitted ?? 0,
+      draftSheets: count?.drafts ?? 0,
+      ...(overallPercent !== undefined && { overallPercent }),
+      decidedAt: decision?.decidedAt,
+      decidedBy: decision?.decidedBy
+    });
+  }
+  return rows.sort((a, b) => a.email.localeCompare(b.email));
+}
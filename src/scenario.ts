@@ -0,0 +1,144 @@
+import { AttachedScenario, EventMode, Scenario, ScenarioStep, Session, TrafficSettings } from "./types";
+import { VALID_MODES } from "./eventEngine";
+import { findCountry, getCatalogue } from "./catalogue";
+import { isRecord } from "./utils";
+
+const MAX_STEPS = 100;
+
+// Validate an uploaded scenario document. Returns a list of problems (empty when valid).
+export function validateScenario(doc: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(doc)) {
+    return ["Scenario must be a JSON object"];
+  }
+
+  if (typeof doc.name !== "string" || !/^[a-zA-Z0-9_-]{1,64}$/.test(doc.name)) {
+    errors.push("name must be 1-64 characters of letters, digits, '-' or '_'");
+  }
+
+  if (doc.loop !== undefined && typeof doc.loop !== "boolean") {
+    errors.push("loop must be a boolean");
+  }
+
+  const steps: unknown[] | undefined = Array.isArray(doc.steps) ? doc.steps : undefined;
+  if (!steps || steps.length === 0) {
+    errors.push("steps must be a non-empty array");
+    return errors;
+  }
+
+  if (steps.length > MAX_STEPS) {
+    errors.push(`steps cannot have more than ${MAX_STEPS} entries`);
+  }
+
+  steps.forEach((value, i) => {
+    const at = `steps[${i}]`;
+    const step = isRecord(value) ? value : {};
+    if (!VALID_MODES.includes(step.mode as EventMode)) {
+      errors.push(`${at}.mode must be one of ${VALID_MODES.join(", ")}`);
+    }
+    if (typeof step.durationSeconds !== "number" || step.durationSeconds <= 0) {
+      errors.push(`${at}.durationSeconds must be a positive number`);
+    }
+    if (step.rampSeconds !== undefined) {
+      if (typeof step.rampSeconds !== "number" || step.rampSeconds < 0) {
+        errors.push(`${at}.rampSeconds must be a non-negative number`);
+      } else if (typeof step.durationSeconds === "number" && step.rampSeconds > step.durationSeconds) {
+        errors.push(`${at}.rampSeconds cannot exceed durationSeconds`);
+      }
+    }
+    if (step.country !== undefined) {
+      if (step.mode !== "country_focus") {
+        errors.push(`${at}.country is only valid with country_focus mode`);
+      } else if (typeof step.country !== "string" || !findCountry(step.country)) {
+        const codes = getCatalogue().catalogue.countries.map(c => c.code);
+        errors.push(`${at}.country must be a catalogue country code: ${codes.join(", ")}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Keep only the fields we store, so arbitrary extra keys in an upload are dropped.
+// Validate with validateScenario first.
+export function normalizeScenario(doc: Scenario): Scenario {
+  return {
+    name: doc.name,
+    description: typeof doc.description === "string" ? doc.description : undefined,
+    loop: doc.loop === true,
+    steps: doc.steps.map((step) => ({
+      mode: step.mode,
+      durationSeconds: step.durationSeconds,
+      rampSeconds: step.rampSeconds,
+      country: step.country
+    }))
+  };
+}
+
+export function scenarioDurationSeconds(steps: ScenarioStep[]): number {
+  return steps.reduce((total, step) => total + step.durationSeconds, 0);
+}
+
+// Locate the step running `elapsedMs` into the scenario. Returns null once a
+// non-looping scenario has finished.
+export function scenarioPosition(
+  scenario: AttachedScenario,
+  elapsedMs: number
+): { stepIndex: number; step: ScenarioStep; intoStepMs: number } | null {
+  const totalMs = scenarioDurationSeconds(scenario.steps) * 1000;
+  if (elapsedMs < 0) {
+    elapsedMs = 0;
+  }
+  if (elapsedMs >= totalMs) {
+    if (!scenario.loop) {
+      return null;
+    }
+    elapsedMs %= totalMs;
+  }
+
+  let offset = 0;
+  for (let i = 0; i < scenario.steps.length; i++) {
+    const stepMs = scenario.steps[i].durationSeconds * 1000;
+    if (elapsedMs < offset + stepMs) {
+      return { stepIndex: i, step: scenario.steps[i], intoStepMs: elapsedMs - offset };
+    }
+    offset += stepMs;
+  }
+  return null;
+}
+
+// Resolve the traffic settings for a session: its scenario step while one is running,
+// otherwise the mode set via /test/mode.
+export function trafficForSession(session: Session, now = Date.now()): TrafficSettings {
+  const own: TrafficSettings = {
+    mode: session.mode,
+    country: session.mode === "country_focus" ? session.focusCountry : undefined
+  };
+
+  if (!session.scenario) {
+    return own;
+  }
+
+  const position = scenarioPosition(session.scenario, now - session.scenario.startedAt);
+  if (!position) {
+    return own;
+  }
+
+  const { stepIndex, step, intoStepMs } = position;
+  const settings: TrafficSettings = {
+    mode: step.mode,
+    country: step.country,
+    scenario: { name: session.scenario.name, stepIndex }
+  };
+
+  const rampMs = (step.rampSeconds ?? 0) * 1000;
+  if (rampMs > 0 && intoStepMs < rampMs && stepIndex > 0) {
+    settings.ramp = {
+      from: session.scenario.steps[stepIndex - 1].mode,
+      progress: intoStepMs / rampMs
+    };
+  }
+
+  return settings;
+}
@@ -0,0 +1,60 @@
+import { Scenario } from "./types";
+import { getDb } from "./db";
+import logger from "./logger";
+
+const COLLECTION_NAME = "scenarios";
+
+async function getCollection() {
+  const db = await getDb();
+  return db.collection<Scenario>(COLLECTION_NAME);
+}
+
+// Create indexes (call once on startup)
+export async function initScenarioStore() {
+  const collection = await getCollection();
+  await collection.createIndex({ name: 1 }, { unique: true });
+  logger.info("Scenario store initialized with indexes");
+}
+
+// Insert or replace a scenario by name
+export async function saveScenario(scenario: Scenario): Promise<Scenario> {
+  const collection = await getCollection();
+  const now = new Date();
+
+  const result = await collection.findOneAndUpdate(
+    { name: scenario.name },
+    {
+      $set: {
+        description: scenario.description,
+        loop: scenario.loop,
+        steps: scenario.steps,
+        updatedAt: now
+      },
+      $setOnInsert: { createdAt: now }
+    },
+    { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+  );
+
+  logger.info("Scenario saved", { name: scenario.name, steps: scenario.steps.length });
+  return result as Scenario;
+}
+
+export async function getScenario(name: string): Promise<Scenario | null> {
+  const collection = await getCollection();
+  return collection.findOne({ name }, { projection: { _id: 0 } });
+}
+
+export async function listScenarios(): Promise<Scenario[]> {
+  const collection = await getCollection();
+  return collection.find({}, { projection: { _id: 0 } }).sort({ name: 1 }).toArray();
+}
+
+export async function deleteScenario(name: string): Promise<boolean> {
+  const collection = await getCollection();
+  const result = await collection.deleteOne({ name });
+  if (result.deletedCount > 0) {
+    logger.info("Scenario deleted", { name });
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,132 @@
+import { EventEmitter } from "events";
+import { ChangeStream, ChangeStreamDocument, Collection, WithId } from "mongodb";
+import { Session } from "./types";
+import logger from "./logger";
+
+// "change_stream" watches the sessions collection so writes from any instance invalidate
+// the cache; "local" relies on this process's own writes (single-node deployments).
+// change_stream falls back to local when MongoDB doesn't support it (standalone server).
+type SessionCacheMode = "change_stream" | "local";
+
+const REQUESTED_MODE: SessionCacheMode = process.env.SESSION_CACHE_MODE === "local" ? "local" : "change_stream";
+
+// Safety net for writes this process can't see (another instance without change streams,
+// or a manual edit in the database)
+const SESSION_CACHE_TTL_MS = Number(process.env.SESSION_CACHE_TTL_MS) || 30000;
+
+type CachedSession = {
+  session: WithId<Session>;
+  cachedAt: number;
+};
+
+const cache = new Map<string, CachedSession>();
+// Per-email generation, bumped by sessionChanged, and the database reads of it in flight.
+// Only tracked while a read is running, so it doesn't grow with every session ever seen.
+const generations = new Map<string, { version: number; reads: number }>();
+let mode: SessionCacheMode = "local";
+let changeStream: ChangeStream<Session> | null = null;
+
+// Emits "changed" with the email whenever a session may have changed
+export const sessionChanges = new EventEmitter();
+sessionChanges.setMaxListeners(0);
+
+export function sessionCacheMode(): SessionCacheMode {
+  return mode;
+}
+
+export function cachedSession(email: string): WithId<Session> | null {
+  const entry = cache.get(email);
+  if (!entry) {
+    return null;
+  }
+  if (Date.now() - entry.cachedAt > SESSION_CACHE_TTL_MS) {
+    cache.delete(email);
+    return null;
+  }
+  return entry.session;
+}
+
+// Call before reading a session from the database; pass the result to finishSessionRead
+export function beginSessionRead(email: string): number {
+  const generation = generations.get(email) ?? { version: 0, reads: 0 };
+  generation.reads++;
+  generations.set(email, generation);
+  return generation.version;
+}
+
+// Cache what a read returned, unless the session changed while it was in flight: writing
+// the older document back would serve it (a revoked token, a stopped session) until the TTL
+export function finishSessionRead(email: string, version: number, session: WithId<Session> | null) {
+  const generation = generations.get(email);
+  if (generation && --generation.reads === 0) {
+    generations.delete(email);
+  }
+  if (session && generation?.version === version) {
+    cache.set(email, { session, cachedAt: Date.now() });
+  }
+}
+
+// Drop a session from the cache and tell listeners (stream loops) to re-read it
+export function sessionChanged(email: string) {
+  cache.delete(email);
+  const generation = generations.get(email);
+  if (generation) {
+    generation.version++;
+  }
+  sessionChanges.emit("changed", email);
+}
+
+function emailForChange(change: ChangeStreamDocument<Session>): string | undefined {
+  if ("fullDocument" in change && change.fullDocument) {
+    return change.fullDocument.email;
+  }
+  // Deletes only carry the _id; match it against what we have cached
+  if ("documentKey" in change) {
+    const id = String(change.documentKey._id);
+    for (const { session } of cache.values()) {
+      if (String(session._id) === id) {
+        return session.email;
+      }
+    }
+  }
+  return undefined;
+}
+
+function fallBackToLocal(reason: string) {
+  logger.warn("Session change stream unavailable, using local invalidation", { reason });
+  changeStream?.close().catch(() => undefined);
+  changeStream = null;
+  mode = "local";
+  // Anything cached (or being read) may have missed a change while the stream was failing
+  cache.clear();
+  generations.forEach(generation => generation.version++);
+}
+
+// Start invalidating the cache from the collection's change stream (call once on startup)
+export function watchSessions(collection: Collection<Session>) {
+  if (REQUESTED_MODE === "local") {
+    mode = "local";
+    logger.info("Session cache using local invalidation");
+    return;
+  }
+
+  try {
+    changeStream = collection.watch([], { fullDocument: "updateLookup" });
+  } catch (error) {
+    return fallBackToLocal(error instanceof Error ? error.message : String(error));
+  }
+  mode = "change_stream";
+
+  changeStream.on("change", (change) => {
+    const email = emailForChange(change);
+    if (email) {
+      sessionChanged(email);
+    } else if (change.operationType === "invalidate") {
+      // The collection was dropped or renamed; the stream is closed now
+      fallBackToLocal("change stream invalidated");
+    }
+  });
+  changeStream.on("error", (error) => fallBackToLocal(error.message));
+
+  logger.info("Session cache watching change stream");
+}
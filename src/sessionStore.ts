@@ -1,9 +1,18 @@
-import { Session, EventMode } from "./types";
+import { randomBytes } from "crypto";
+import { WithId } from "mongodb";
+import { Session, EventMode, Scenario } from "./types";
 import { getDb } from "./db";
+import { beginSessionRead, cachedSession, finishSessionRead, sessionChanged, watchSessions } from "./sessionCache";
+import { sessionCacheLookups } from "./metrics";
 import logger from "./logger";
 
 const COLLECTION_NAME = "sessions";
 
+// Random id stored on the session; session tokens are only valid while it matches their jti
+function newTokenId(): string {
+  return randomBytes(12).toString("hex");
+}
+
 // Get the sessions collection
 async function getCollection() {
   const db = await getDb();
@@ -16,6 +25,7 @@ export async function initSessionStore() {
   await collection.createIndex({ email: 1 }, { unique: true });
   await collection.createIndex({ isActive: 1 });
   await collection.createIndex({ endsAt: 1 });
+  watchSessions(collection);
   logger.info("Session store initialized with indexes");
 }
 
@@ -31,10 +41,12 @@ export async function createSession(
     name,
     endsAt,
     isActive: true,
-    mode: "normal"
+    mode: "normal",
+    tokenId: newTokenId()
   };
   
   await collection.insertOne(session);
+  sessionChanged(email);
   logger.info("Session created", { 
     email, 
     name, 
@@ -43,25 +55,52 @@ export async function createSession(
   return session;
 }
 
+// When the session actually ends: a paused clock keeps pushing endsAt back
+export function effectiveEndsAt(session: Pick<Session, "endsAt" | "pausedAt">, now = Date.now()): number {
+  return session.pausedAt !== undefined ? session.endsAt + (now - session.pausedAt) : session.endsAt;
+}
+
+export function remainingMs(session: Pick<Session, "endsAt" | "pausedAt">, now = Date.now()): number {
+  return Math.max(0, effectiveEndsAt(session, now) - now);
+}
+
+// Served from the in-process cache when possible; every write below invalidates it,
+// so stream loops can call this per event without a database round-trip
 export async function getSession(email: string): Promise<Session | null> {
-  const collection = await getCollection();
-  const session = await collection.findOne({ email });
-  
+  const cached = cachedSession(email);
+  if (cached && !(Date.now() > effectiveEndsAt(cached) && cached.isActive)) {
+    sessionCacheLookups.inc({ result: "hit" });
+    return cached;
+  }
+  sessionCacheLookups.inc({ result: "miss" });
+
+  const version = beginSessionRead(email);
+  let session: WithId<Session> | null = null;
+  try {
+    const collection = await getCollection();
+    session = await collection.findOne({ email });
+  } finally {
+    finishSessionRead(email, version, session);
+  }
+
   if (!session) {
     logger.debug("Session not found", { email });
     return null;
   }
 
   // Check if session has expired
-  if (Date.now() > session.endsAt && session.isActive) {
+  if (Date.now() > effectiveEndsAt(session) && session.isActive) {
+    const collection = await getCollection();
     await collection.updateOne(
       { email },
-      { $set: { isActive: false } }
+      { $set: { isActive: false, endedReason: "expired" } }
     );
     session.isActive = false;
+    session.endedReason = "expired";
     logger.info("Session expired", { email, endsAt: new Date(session.endsAt).toISOString() });
+    sessionChanged(email);
   }
-  
+
   return session;
 }
 
@@ -69,21 +108,24 @@ export async function stopSession(email: string): Promise<void> {
   const collection = await getCollection();
   const result = await collection.updateOne(
     { email },
-    { $set: { isActive: false } }
+    { $set: { isActive: false, endedReason: "stopped" } }
   );
   
   if (result.matchedCount > 0) {
+    sessionChanged(email);
     logger.info("Session stopped", { email });
   } else {
     logger.warn("Attempted to stop non-existent session", { email });
   }
 }
 
-export async function updateMode(email: string, mode: EventMode): Promise<void> {
+export async function updateMode(email: string, mode: EventMode, focusCountry?: string): Promise<void> {
   const collection = await getCollection();
   const result = await collection.updateOne(
     { email },
-    { $set: { mode } }
+    focusCountry
+      ? { $set: { mode, focusCountry } }
+      : { $set: { mode }, $unset: { focusCountry: "" } }
   );
   
   if (result.matchedCount === 0) {
@@ -91,11 +133,58 @@ export async function updateMode(email: string, mode: EventMode): Promise<void>
     throw new Error("Session not found");
   }
   
-  logger.info("Session mode updated", { email, newMode: mode });
+  sessionChanged(email);
+  logger.info("Session mode updated", { email, newMode: mode, focusCountry });
 }
 
 // ============== ADMIN FUNCTIONS ==============
 
+// Attach a scenario to a session; it starts running immediately
+export async function attachScenario(email: string, scenario: Scenario): Promise<Session> {
+  const collection = await getCollection();
+
+  const result = await collection.findOneAndUpdate(
+    { email },
+    {
+      $set: {
+        scenario: {
+          name: scenario.name,
+          loop: scenario.loop ?? false,
+          steps: scenario.steps,
+          startedAt: Date.now()
+        }
+      }
+    },
+    { returnDocument: "after" }
+  );
+
+  if (!result) {
+    logger.error("Cannot attach scenario: session not found", { email, scenario: scenario.name });
+    throw new Error("Session not found");
+  }
+
+  sessionChanged(email);
+  logger.info("Scenario attached to session (admin)", { email, scenario: scenario.name });
+  return result;
+}
+
+// Detach the running scenario; the session falls back to its own mode
+export async function detachScenario(email: string): Promise<void> {
+  const collection = await getCollection();
+  const result = await collection.updateOne(
+    { email },
+    { $unset: { scenario: "" } }
+  );
+
+  if (result.matchedCount === 0) {
+    logger.error("Cannot detach scenario: session not found", { email });
+    throw new Error("Session not found");
+  }
+
+  sessionChanged(email);
+  logger.info("Scenario detached from session (admin)", { email });
+}
+
 // Resume an expired/stopped session for evaluation
 export async function resumeSession(email: string, durationMs: number): Promise<Session> {
   const collection = await getCollection();
@@ -103,7 +192,7 @@ export async function resumeSession(email: string, durationMs: number): Promise<
   
   const result = await collection.findOneAndUpdate(
     { email },
-    { $set: { isActive: true, endsAt: newEndsAt } },
+    { $set: { isActive: true, endsAt: newEndsAt }, $unset: { pausedAt: "", endedReason: "" } },
     { returnDocument: "after" }
   );
   
@@ -112,6 +201,7 @@ export async function resumeSession(email: string, durationMs: number): Promise<
     throw new Error("Session not found");
   }
   
+  sessionChanged(email);
   logger.info("Session resumed (admin)", { 
     email, 
     newEndsAt: new Date(newEndsAt).toISOString(),
@@ -124,7 +214,8 @@ export async function resumeSession(email: string, durationMs: number): Promise<
 export async function createEvalSession(
   email: string, 
   durationMs: number, 
-  mode: EventMode = "normal"
+  mode: EventMode = "normal",
+  scenario?: Scenario
 ): Promise<Session> {
   const collection = await getCollection();
   
@@ -137,18 +228,93 @@ export async function createEvalSession(
     name: "Evaluator",
     endsAt: Date.now() + durationMs,
     isActive: true,
-    mode
+    mode,
+    tokenId: newTokenId()
   };
+
+  if (scenario) {
+    session.scenario = {
+      name: scenario.name,
+      loop: scenario.loop ?? false,
+      steps: scenario.steps,
+      startedAt: Date.now()
+    };
+  }
   
   await collection.insertOne(session);
+  sessionChanged(email);
   logger.info("Evaluation session created (admin)", { 
     email, 
     mode,
+    scenario: scenario?.name,
     endsAt: new Date(session.endsAt).toISOString()
   });
   return session;
 }
 
+// Set the session's clock. pausedAt null resumes it.
+export async function setSessionClock(email: string, endsAt: number, pausedAt: number | null): Promise<Session> {
+  const collection = await getCollection();
+  const result = await collection.findOneAndUpdate(
+    { email },
+    pausedAt !== null
+      ? { $set: { endsAt, pausedAt } }
+      : { $set: { endsAt }, $unset: { pausedAt: "" } },
+    { returnDocument: "after" }
+  );
+
+  if (!result) {
+    logger.error("Cannot update session clock: session not found", { email });
+    throw new Error("Session not found");
+  }
+
+  sessionChanged(email);
+  logger.info("Session clock updated", { email, endsAt: new Date(endsAt).toISOString(), paused: pausedAt !== null });
+  return result;
+}
+
+// Give the session a new tokenId, revoking every token issued so far. Returns the new id.
+export async function rotateTokenId(email: string): Promise<Session> {
+  const collection = await getCollection();
+  const result = await collection.findOneAndUpdate(
+    { email },
+    { $set: { tokenId: newTokenId() } },
+    { returnDocument: "after" }
+  );
+
+  if (!result) {
+    logger.error("Cannot rotate session token: session not found", { email });
+    throw new Error("Session not found");
+  }
+
+  sessionChanged(email);
+  logger.info("Session tokens revoked", { email });
+  return result;
+}
+
+// Mark every active session whose (unpaused) clock has run out as expired. Each update
+// re-checks the condition, so when several instances sweep at once only one expires a
+// session and only that one gets it back.
+export async function expireDueSessions(now = Date.now()): Promise<Session[]> {
+  const collection = await getCollection();
+  const due = { isActive: true, pausedAt: { $exists: false }, endsAt: { $lte: now } };
+  const candidates = await collection.find(due).toArray();
+
+  const expired: Session[] = [];
+  for (const session of candidates) {
+    const result = await collection.updateOne(
+      { email: session.email, ...due },
+      { $set: { isActive: false, endedReason: "expired" } }
+    );
+    if (result.modifiedCount > 0) {
+      sessionChanged(session.email);
+      logger.info("Session expired", { email: session.email, endsAt: new Date(session.endsAt).toISOString() });
+      expired.push({ ...session, isActive: false, endedReason: "expired" });
+    }
+  }
+  return expired;
+}
+
 // List all sessions (for admin dashboard)
 export async function listSessions(): Promise<Session[]> {
   const collection = await getCollection();
@@ -161,7 +327,7 @@ export async function listActiveSessions(): Promise<Session[]> {
   const now = Date.now();
   return collection.find({ 
     isActive: true,
-    endsAt: { $gt: now }
+    $or: [{ endsAt: { $gt: now } }, { pausedAt: { $exists: true } }]
   }).toArray();
 }
 
@@ -177,6 +343,7 @@ export async function deleteSession(email: string): Promise<boolean> {
   const collection = await getCollection();
   const result = await collection.deleteOne({ email });
   if (result.deletedCount > 0) {
+    sessionChanged(email);
     logger.info("Session deleted (admin)", { email });
     return true;
   }
@@ -0,0 +1,544 @@
+import { ControlEvent, EventMode, Incident, PaymentEvent, Session, StreamFrame, TrafficSettings } from "./types";
+import { EngineContext, generatePayment, nextDelay } from "./eventEngine";
+import { effectiveEndsAt, getSession, remainingMs, updateMode } from "./sessionStore";
+import { sessionChanges } from "./sessionCache";
+import { trafficForSession } from "./scenario";
+import { clearReplayBuffer, framesSince, latestFrameId, recordFrame } from "./replayBuffer";
+import { logEvent } from "./eventLog";
+import { clearAggregates, recordAggregateEvent } from "./aggregates";
+import { activeIncidents, applyDeliveryFaults, clearIncidents, createDeliveryState, DeliveryState, describeIncident } from "./incidents";
+import { EventFilter, renderEvent } from "./filters";
+import { findCountry, focusCountryFor, getCatalogue } from "./catalogue";
+import { clearBackpressureStats } from "./backpressure";
+import { activeSessionStreams, controlFramesSent, eventsGenerated, openStreams } from "./metrics";
+import logger from "./logger";
+
+// Minutes before endsAt at which subscribers get a time_warning
+const TIME_WARNING_MINUTES = [15, 5, 1];
+// Retry delay after a failed session lookup doubles from 1s up to this
+const TICK_RETRY_MAX_MS = 30000;
+
+// Concurrent connections (SSE and WebSocket together) allowed per session
+export const MAX_CONNECTIONS_PER_SESSION = Number(process.env.MAX_CONNECTIONS_PER_SESSION) || 5;
+
+// Transport-specific output of a session stream (an SSE response or a WebSocket)
+export type StreamSink = {
+  send(frame: StreamFrame): void;
+  end(): void;
+};
+
+// One connection's handle on its session's shared stream
+export type SessionStream = {
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  setFilter(filter: EventFilter): void;
+  getFilter(): EventFilter;
+  isPaused(): boolean;
+  eventCount(): number;
+};
+
+type Subscriber = {
+  id: number;
+  sink: StreamSink;
+  transport: "sse" | "ws";
+  filter: EventFilter;
+  eventCount: number;
+  // Last frame id recorded before the subscriber paused, so resume can catch up from the buffer
+  pausedAfter: number | null;
+  // Session tokenId the connection authenticated with; it's closed when the token is revoked
+  tokenId?: string;
+};
+
+// The single generator loop for a session and everyone listening to it
+type Broadcast = {
+  email: string;
+  ctx: EngineContext;
+  traffic: TrafficSettings;
+  subscribers: Map<number, Subscriber>;
+  // Incidents already announced with an incident_started marker
+  announced: Map<string, Incident>;
+  // time_warning thresholds (minutes) already sent
+  warned: Set<number>;
+  // endsAt/pausedAt last seen, to announce clock changes (null until the first check)
+  clock: string | null;
+  delivery: DeliveryState;
+  totalEvents: number;
+  timeout: NodeJS.Timeout | null;
+  stopped: boolean;
+  // Consecutive session lookups that failed, for the retry backoff
+  failures: number;
+  // Seeded streams only: stream clock reading when the current scenario (keyed by its
+  // wall-clock startedAt) was first seen; its steps are timed from there
+  scenarioStart: { startedAt: number; at: number } | null;
+};
+
+const broadcasts = new Map<string, Broadcast>();
+let nextSubscriberId = 1;
+
+export type JoinResult =
+  | { ok: true; stream: SessionStream; seed?: number; connections: number }
+  | { ok: false; status: number; error: string };
+
+// Current time on a session's stream clock: virtual for seeded streams, wall time otherwise
+// (and when no stream is running)
+export function streamNow(email: string): number {
+  return broadcasts.get(email)?.ctx.clock.now() ?? Date.now();
+}
+
+// Traffic settings for a session on its stream's clock; ctx is the context a new stream
+// would start with when none is running. Wall-clock streams time scenario steps from when
+// the scenario was attached. A seeded stream runs them on its virtual clock from the moment
+// it first sees the scenario, so the same seed replays the same steps.
+export function streamTraffic(session: Session, ctx?: EngineContext): TrafficSettings {
+  const broadcast = broadcasts.get(session.email);
+  const streamCtx = broadcast?.ctx ?? ctx;
+  if (!streamCtx) {
+    return trafficForSession(session);
+  }
+  const now = streamCtx.clock.now();
+  if (streamCtx.seed === undefined || !session.scenario) {
+    return trafficForSession(session, now);
+  }
+
+  const anchor = broadcast?.scenarioStart;
+  const at = anchor && anchor.startedAt === session.scenario.startedAt ? anchor.at : now;
+  if (broadcast) {
+    broadcast.scenarioStart = { startedAt: session.scenario.startedAt, at };
+  }
+  return trafficForSession({ ...session, scenario: { ...session.scenario, startedAt: at } }, now);
+}
+
+// Number of open stream connections for a session
+export function connectionCount(email: string): number {
+  return broadcasts.get(email)?.subscribers.size ?? 0;
+}
+
+// Why a connection with this context could not join the session's stream, if it couldn't.
+// A seed only takes effect when it starts the loop; joining a running stream with a
+// different seed would silently produce a sequence the client didn't ask for.
+export function joinError(email: string, ctx: EngineContext): { status: number; error: string } | null {
+  const broadcast = broadcasts.get(email);
+  if (!broadcast) {
+    return null;
+  }
+  if (broadcast.subscribers.size >= MAX_CONNECTIONS_PER_SESSION) {
+    return { status: 429, error: `Too many connections for this session (max ${MAX_CONNECTIONS_PER_SESSION})` };
+  }
+  if (ctx.seed !== undefined && ctx.seed !== broadcast.ctx.seed) {
+    return { status: 409, error: "Session stream is already running with a different seed" };
+  }
+  return null;
+}
+
+// Subscribe a connection to a session's stream, starting the session's generator loop if
+// this is the first connection. Every subscriber receives the same event sequence; each
+// applies its own filter and projection. ctx is only used when the loop starts here.
+export function joinSessionStream(
+  email: string,
+  initialTraffic: TrafficSettings,
+  ctx: EngineContext,
+  sink: StreamSink,
+  transport: "sse" | "ws",
+  initialFilter: EventFilter = {},
+  tokenId?: string
+): JoinResult {
+  const refusal = joinError(email, ctx);
+  if (refusal) {
+    logger.warn("Stream join refused", { email, transport, ...refusal });
+    return { ok: false, ...refusal };
+  }
+
+  let broadcast = broadcasts.get(email);
+  if (!broadcast) {
+    broadcast = startBroadcast(email, initialTraffic, ctx);
+  }
+
+  const subscriber: Subscriber = {
+    id: nextSubscriberId++,
+    sink,
+    transport,
+    filter: initialFilter,
+    eventCount: 0,
+    pausedAfter: null,
+    tokenId
+  };
+  broadcast.subscribers.set(subscriber.id, subscriber);
+  logSubscription(broadcast, subscriber, "joined");
+  openStreams.inc({ transport });
+  logger.info("Stream subscriber joined", { email, transport, connections: broadcast.subscribers.size });
+
+  const owner = broadcast;
+  const stream: SessionStream = {
+    pause() {
+      if (subscriber.pausedAfter === null) {
+        subscriber.pausedAfter = latestFrameId(email);
+      }
+    },
+    resume() {
+      if (subscriber.pausedAfter === null) {
+        return;
+      }
+      // Catch up on what the rest of the session saw while this connection was paused
+      const { frames } = framesSince(email, subscriber.pausedAfter);
+      subscriber.pausedAfter = null;
+      frames.forEach(frame => deliver(owner, subscriber, frame));
+    },
+    stop() {
+      leave(owner, subscriber);
+    },
+    setFilter(next) {
+      subscriber.filter = next;
+      logSubscription(owner, subscriber, "filter_changed");
+    },
+    getFilter: () => subscriber.filter,
+    isPaused: () => subscriber.pausedAfter !== null,
+    eventCount: () => subscriber.eventCount
+  };
+
+  return { ok: true, stream, seed: broadcast.ctx.seed, connections: broadcast.subscribers.size };
+}
+
+function startBroadcast(email: string, initialTraffic: TrafficSettings, ctx: EngineContext): Broadcast {
+  const broadcast: Broadcast = {
+    email,
+    ctx,
+    traffic: initialTraffic,
+    subscribers: new Map(),
+    announced: new Map(),
+    warned: new Set(),
+    clock: null,
+    delivery: createDeliveryState(),
+    totalEvents: 0,
+    timeout: null,
+    stopped: false,
+    failures: 0,
+    scenarioStart: null
+  };
+  broadcasts.set(email, broadcast);
+  activeSessionStreams.inc();
+  logger.info("Session stream started", { email, mode: initialTraffic.mode, seed: ctx.seed });
+  schedule(broadcast, nextDelay(initialTraffic, ctx));
+  return broadcast;
+}
+
+// Drop a subscriber; the loop stops with the last one
+function leave(broadcast: Broadcast, subscriber: Subscriber) {
+  if (!broadcast.subscribers.delete(subscriber.id)) {
+    return;
+  }
+  logSubscription(broadcast, subscriber, "left");
+  openStreams.dec({ transport: subscriber.transport });
+  logger.info("Stream subscriber left", {
+    email: broadcast.email,
+    transport: subscriber.transport,
+    connections: broadcast.subscribers.size
+  });
+  if (broadcast.subscribers.size === 0) {
+    stopBroadcast(broadcast);
+  }
+}
+
+function stopBroadcast(broadcast: Broadcast) {
+  if (broadcast.stopped) {
+    return;
+  }
+  broadcast.stopped = true;
+  if (broadcast.timeout) {
+    clearTimeout(broadcast.timeout);
+    broadcast.timeout = null;
+  }
+  if (broadcasts.get(broadcast.email) === broadcast) {
+    broadcasts.delete(broadcast.email);
+    activeSessionStreams.dec();
+  }
+  logger.info("Session stream stopped", { email: broadcast.email, totalEvents: broadcast.totalEvents });
+}
+
+// The event log holds payments before filtering; these entries say what each connection kept
+function logSubscription(broadcast: Broadcast, subscriber: Subscriber, action: "joined" | "filter_changed" | "left") {
+  logEvent(broadcast.email, "subscription", {
+    action,
+    subscriberId: subscriber.id,
+    transport: subscriber.transport,
+    filter: subscriber.filter,
+    // The change applies to frames after this one
+    afterFrameId: latestFrameId(broadcast.email),
+    ...(action === "left" && { eventsSent: subscriber.eventCount })
+  });
+}
+
+function schedule(broadcast: Broadcast, delay: number) {
+  broadcast.timeout = setTimeout(() => tick(broadcast), delay);
+}
+
+// Send a recorded frame to one subscriber through its filter (paused subscribers skip it)
+function deliver(broadcast: Broadcast, subscriber: Subscriber, frame: StreamFrame) {
+  if (subscriber.pausedAfter !== null) {
+    return;
+  }
+  const visible = viewFrame(frame, subscriber.filter);
+  if (!visible) {
+    return;
+  }
+  subscriber.sink.send(visible);
+  if (frame.kind === "payment") {
+    subscriber.eventCount++;
+
+    // Log every 100 events to avoid spam
+    if (subscriber.eventCount % 100 === 0) {
+      logger.debug("Stream events sent", {
+        email: broadcast.email,
+        transport: subscriber.transport,
+        eventCount: subscriber.eventCount,
+        mode: broadcast.traffic.mode
+      });
+    }
+  }
+}
+
+// Keep a frame for replay, write it to the session's event log and fan it out
+function publish(broadcast: Broadcast, kind: "payment", payload: PaymentEvent): void;
+function publish(broadcast: Broadcast, kind: "control", payload: ControlEvent): void;
+function publish(broadcast: Broadcast, kind: StreamFrame["kind"], payload: PaymentEvent | ControlEvent) {
+  if (kind === "control") {
+    controlFramesSent.inc({ type: (payload as ControlEvent).type });
+  }
+  const frame = recordFrame(broadcast.email, kind, JSON.stringify(payload));
+  logEvent(broadcast.email, kind, payload, frame.id);
+  broadcast.subscribers.forEach(subscriber => deliver(broadcast, subscriber, frame));
+}
+
+// Per-session state kept in memory only matters while the session runs: drop it once the
+// session has ended (/stop, expiry, deletion) so it doesn't pile up for the process's life.
+// Replay frames go too; a finished session can't reconnect.
+function releaseSessionState(email: string) {
+  clearReplayBuffer(email);
+  clearAggregates(email);
+  clearIncidents(email);
+  clearBackpressureStats(email);
+}
+
+// Bring a broadcast in line with the session: end it if the session is over, announce
+// mode and scenario changes. Returns false once the stream has ended.
+function syncSession(broadcast: Broadcast, s: Session | null): boolean {
+  const { email } = broadcast;
+  if (!s || !s.isActive) {
+    const ended: ControlEvent = { type: "session_ended", reason: s?.endedReason };
+    logger.info("Stream ended: session inactive", { email, totalEvents: broadcast.totalEvents });
+    logEvent(email, "control", ended);
+    controlFramesSent.inc({ type: ended.type });
+    const subscribers = [...broadcast.subscribers.values()];
+    stopBroadcast(broadcast);
+    releaseSessionState(email);
+    subscribers.forEach(subscriber => {
+      subscriber.sink.send({ kind: "control", data: JSON.stringify(ended) });
+      subscriber.sink.end();
+    });
+    return false;
+  }
+
+  // Connections made with a revoked token don't get to keep watching
+  broadcast.subscribers.forEach(subscriber => {
+    if (subscriber.tokenId !== s.tokenId) {
+      const revoked: ControlEvent = { type: "token_revoked" };
+      logger.info("Stream subscriber closed: token revoked", { email, transport: subscriber.transport });
+      subscriber.sink.send({ kind: "control", data: JSON.stringify(revoked) });
+      subscriber.sink.end();
+      leave(broadcast, subscriber);
+    }
+  });
+  if (broadcast.stopped) {
+    return false;
+  }
+
+  // Pauses and extensions show up on the stream the moment they're made
+  const clock = `${s.endsAt}:${s.pausedAt ?? ""}`;
+  if (broadcast.clock !== null && broadcast.clock !== clock) {
+    publish(broadcast, "control", {
+      type: "clock_changed",
+      remainingSeconds: Math.floor(remainingMs(s) / 1000),
+      endsAt: new Date(effectiveEndsAt(s)).toISOString(),
+      paused: s.pausedAt !== undefined
+    });
+  }
+  broadcast.clock = clock;
+
+  warnIfEnding(broadcast, s);
+
+  // Mode comes from the running scenario step if there is one, else from /test/mode
+  const traffic = streamTraffic(s);
+  const previous = broadcast.traffic;
+  broadcast.traffic = traffic;
+
+  // Check if mode changed, adjust interval dynamically
+  if (traffic.mode !== previous.mode || traffic.country !== previous.country) {
+    logger.info("Stream mode changed", { email, oldMode: previous.mode, newMode: traffic.mode, scenario: traffic.scenario });
+    publish(broadcast, "control", {
+      type: "mode_changed",
+      mode: traffic.mode,
+      country: traffic.country,
+      scenario: traffic.scenario
+    });
+  }
+  return true;
+}
+
+// Send a time_warning when the session crosses one of the thresholds. Joining late only
+// warns for the nearest threshold; extending the session re-arms the ones it moved past.
+function warnIfEnding(broadcast: Broadcast, s: Session) {
+  const remaining = remainingMs(s);
+  const crossed = TIME_WARNING_MINUTES.filter(minutes => remaining <= minutes * 60000);
+  TIME_WARNING_MINUTES
+    .filter(minutes => !crossed.includes(minutes))
+    .forEach(minutes => broadcast.warned.delete(minutes));
+
+  const nearest = Math.min(...crossed);
+  if (crossed.length === 0 || broadcast.warned.has(nearest)) {
+    return;
+  }
+  crossed.forEach(minutes => broadcast.warned.add(minutes));
+  publish(broadcast, "control", {
+    type: "time_warning",
+    remainingSeconds: Math.floor(remaining / 1000),
+    endsAt: new Date(effectiveEndsAt(s)).toISOString()
+  });
+}
+
+// A stop or mode change reaches running streams straight away instead of on their next event;
+// a session that ends with no stream running has its state released here
+sessionChanges.on("changed", async (email: string) => {
+  const broadcast = broadcasts.get(email);
+  if (!broadcast) {
+    try {
+      const s = await getSession(email);
+      if ((!s || !s.isActive) && !broadcasts.has(email)) {
+        releaseSessionState(email);
+      }
+    } catch (error) {
+      logger.error("Session state release failed", {
+        email,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    return;
+  }
+  try {
+    const s = await getSession(email);
+    const previous = broadcast.traffic;
+    if (broadcast.stopped || !syncSession(broadcast, s)) {
+      return;
+    }
+    // Don't make a new mode wait out the old mode's interval
+    if (broadcast.timeout && broadcast.traffic.mode !== previous.mode) {
+      clearTimeout(broadcast.timeout);
+      schedule(broadcast, nextDelay(broadcast.traffic, broadcast.ctx, activeIncidents(email, broadcast.ctx.clock.now())));
+    }
+  } catch (error) {
+    logger.error("Stream session refresh failed", {
+      email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// One step of a session's loop: check the (cached) session, announce incidents,
+// generate the next payment and schedule the one after it
+async function tick(broadcast: Broadcast) {
+  broadcast.timeout = null;
+  const { email, ctx } = broadcast;
+
+  // A failed lookup must not end the loop: every subscriber would be left with heartbeats only
+  let s: Session | null;
+  try {
+    s = await getSession(email);
+    broadcast.failures = 0;
+  } catch (error) {
+    broadcast.failures++;
+    const retryMs = Math.min(TICK_RETRY_MAX_MS, 1000 * 2 ** (broadcast.failures - 1));
+    logger.error("Stream session lookup failed, retrying", {
+      email,
+      failures: broadcast.failures,
+      retryMs,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    if (!broadcast.stopped) {
+      schedule(broadcast, retryMs);
+    }
+    return;
+  }
+  // Stop if every subscriber left while we were waiting
+  if (broadcast.stopped || !syncSession(broadcast, s)) {
+    return;
+  }
+  const traffic = broadcast.traffic;
+
+  // Marker events so graders can line incidents up with what the dashboard showed
+  const incidents = activeIncidents(email, ctx.clock.now());
+  for (const incident of incidents) {
+    if (!broadcast.announced.has(incident.id)) {
+      broadcast.announced.set(incident.id, incident);
+      publish(broadcast, "control", { type: "incident_started", incident: describeIncident(incident) });
+    }
+  }
+  for (const [incidentId, incident] of broadcast.announced) {
+    if (!incidents.some(i => i.id === incidentId)) {
+      broadcast.announced.delete(incidentId);
+      publish(broadcast, "control", { type: "incident_ended", incident: describeIncident(incident) });
+    }
+  }
+
+  const generated: PaymentEvent = generatePayment(traffic, ctx, incidents);
+  for (const event of applyDeliveryFaults(generated, incidents, broadcast.delivery, ctx.rng)) {
+    recordAggregateEvent(email, event);
+    publish(broadcast, "payment", event);
+    broadcast.totalEvents++;
+    eventsGenerated.inc({ mode: traffic.mode, stream: "session" });
+  }
+
+  // Schedule next event with current mode's interval
+  schedule(broadcast, nextDelay(traffic, ctx, incidents));
+}
+
+// Re-render a buffered frame (replay or snapshot) through a subscriber's filter.
+// Control frames always pass; payments may be dropped or projected.
+export function viewFrame(frame: StreamFrame, filter: EventFilter): StreamFrame | null {
+  if (frame.kind !== "payment") {
+    return frame;
+  }
+  const data = renderEvent(JSON.parse(frame.data), filter);
+  return data === null ? null : { ...frame, data };
+}
+
+export type ModeChangeResult =
+  | { ok: true; country?: string }
+  | { ok: false; status: number; error: string };
+
+// Change a session's mode on behalf of the candidate (/test/mode or a WebSocket message).
+// country picks the country_focus target; it defaults to the catalogue's default country.
+// Refused while a scenario is driving the session.
+export async function changeSessionMode(email: string, mode: EventMode, country?: string): Promise<ModeChangeResult> {
+  if (country !== undefined && mode !== "country_focus") {
+    return { ok: false, status: 400, error: "country is only valid with country_focus mode" };
+  }
+  if (country !== undefined && !findCountry(country)) {
+    const codes = getCatalogue().catalogue.countries.map(c => c.code);
+    return { ok: false, status: 400, error: `Unknown country. Valid countries: ${codes.join(", ")}` };
+  }
+
+  const session = await getSession(email);
+  if (!session) {
+    return { ok: false, status: 404, error: "Session not found" };
+  }
+
+  const scenario = streamTraffic(session).scenario;
+  if (scenario) {
+    logger.warn("Mode change refused: scenario running", { email, mode, scenario: scenario.name });
+    return { ok: false, status: 409, error: `Session is running scenario "${scenario.name}", which controls the mode` };
+  }
+
+  const focusCountry = mode === "country_focus" ? focusCountryFor(country).code : undefined;
+  await updateMode(email, mode, focusCountry);
+  logEvent(email, "mode_set", { mode, country: focusCountry });
+  return { ok: true, country: focusCountry };
+}
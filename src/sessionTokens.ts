@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Session } from "./types";
+import { effectiveEndsAt, getSession } from "./sessionStore";
+import { amendmentDeadline } from "./submissions";
+import logger from "./logger";
+
+// Candidate session tokens: HS256 JWTs naming the session (sub = email) and the session's
+// current tokenId (jti). Signatures verify offline; rotating a session's tokenId revokes
+// every token issued before it. A token lasts as long as its session plus the submission
+// grace period, checked against the session's current clock, so pausing or extending the
+// assignment extends the token too. exp is that deadline as of issuing.
+
+const SESSION_TOKEN_SECRET = process.env.SESSION_TOKEN_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_TOKEN_SECRET) {
+  logger.warn("SESSION_TOKEN_SECRET not set: using a random secret, tokens won't survive a restart");
+}
+
+export type SessionTokenClaims = {
+  sub: string;
+  jti: string;
+  iat: number;
+  exp: number;
+};
+
+export type SessionAuthResult =
+  | { ok: true; email: string; session: Session }
+  | { ok: false; status: number; error: string };
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+function sign(content: string): string {
+  return createHmac("sha256", SESSION_TOKEN_SECRET).update(content).digest("base64url");
+}
+
+// Until when a session's tokens are accepted: the end of its clock plus the grace period
+// for submitting after it
+export function sessionTokenExpiry(session: Pick<Session, "endsAt" | "pausedAt">): number {
+  return amendmentDeadline(new Date(effectiveEndsAt(session))).getTime();
+}
+
+export function issueSessionToken(session: Session): string {
+  if (!session.tokenId) {
+    throw new Error("Session has no tokenId");
+  }
+  const claims: SessionTokenClaims = {
+    sub: session.email,
+    jti: session.tokenId,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(sessionTokenExpiry(session) / 1000)
+  };
+  const content = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(claims))}`;
+  return `${content}.${sign(content)}`;
+}
+
+// Check the signature only (no database access); null when it fails. Expiry depends on the
+// session's clock, so authenticateSession checks it.
+export function verifySessionToken(token: string): SessionTokenClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+  const [header, payload, signature] = parts;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as SessionTokenClaims;
+    if (typeof claims.sub !== "string" || typeof claims.jti !== "string" || typeof claims.exp !== "number") {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// Full check for a candidate request: valid token, session still exists, token not revoked,
+// and (when the client also sent one) the email matches the token's
+export async function authenticateSession(token: string | undefined, email?: string): Promise<SessionAuthResult> {
+  if (!token) {
+    return { ok: false, status: 401, error: "Missing session token. Provide Authorization: Bearer <token> or ?token=<token> (returned by /start)" };
+  }
+
+  const claims = verifySessionToken(token);
+  if (!claims) {
+    return { ok: false, status: 401, error: "Invalid session token" };
+  }
+  if (email && email.toLowerCase() !== claims.sub.toLowerCase()) {
+    return { ok: false, status: 403, error: "Session token does not belong to this email" };
+  }
+
+  const session = await getSession(claims.sub);
+  if (!session) {
+    return { ok: false, status: 404, error: "Session not found" };
+  }
+  if (session.tokenId !== claims.jti) {
+    return { ok: false, status: 401, error: "Session token has been revoked" };
+  }
+  if (Date.now() > sessionTokenExpiry(session)) {
+    return { ok: false, status: 401, error: "Session token has expired" };
+  }
+
+  return { ok: true, email: session.email, session };
+}
@@ -0,0 +1,53 @@
+import { Response } from "express";
+import { StreamFrame } from "./types";
+import { FrameWriter } from "./backpressure";
+
+// How long a browser waits before reconnecting a dropped stream
+const SSE_RETRY_MS = Number(process.env.SSE_RETRY_MS) || 3000;
+
+// Comment frames sent on every open stream so proxies don't cut it for being idle
+const SSE_HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS) || 15000;
+
+// Control frames are named after their type; payments stay unnamed (the default "message" event)
+export function formatSseFrame(frame: StreamFrame): string {
+  const id = frame.id !== undefined ? `id: ${frame.id}\n` : "";
+  const event = frame.kind === "control" ? `event: ${JSON.parse(frame.data).type}\n` : "";
+  return `${id}${event}data: ${frame.data}\n\n`;
+}
+
+// A named event outside of a session stream (e.g. the aggregates feed)
+export function writeSseEvent(res: Response, type: string, payload: object = {}) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...payload })}\n\n`);
+}
+
+// Send the stream headers and the retry hint, then heartbeat until the connection closes
+export function openSseStream(res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => {
+    // A client that's behind already has frames queued; don't add to them
+    if (!res.writableNeedDrain) {
+      res.write(": heartbeat\n\n");
+    }
+  }, SSE_HEARTBEAT_MS);
+  res.on("close", () => clearInterval(heartbeat));
+}
+
+// SSE transport for backpressureSink
+export function sseWriter(res: Response): FrameWriter {
+  return {
+    write: (frame) => res.write(formatSseFrame(frame)),
+    onDrain: (callback) => res.once("drain", callback),
+    close: () => res.end(),
+    // Closing the socket fires the request's close handler, which takes the subscriber out.
+    // A response that already finished has let go of its socket and is left alone.
+    abort: () => {
+      if (!res.writableFinished) {
+        res.destroy();
+      }
+    }
+  };
+}
@@ -0,0 +1,212 @@
+import { Filter } from "mongodb";
+import { Submission } from "./types";
+import { getDb } from "./db";
+import { emitWebhookEvent } from "./webhooks";
+import logger from "./logger";
+
+const SUBMISSIONS_COLLECTION = "submissions";
+
+// How long after the assignment ends (stopped or expired) a candidate may still submit or amend
+const SUBMISSION_GRACE_MINUTES = Number(process.env.SUBMISSION_GRACE_MINUTES) || 60;
+const MAX_NOTES_LENGTH = 2000;
+
+export type SubmissionInput = {
+  githubRepo?: unknown;
+  deployedUrl?: unknown;
+  notes?: unknown;
+};
+
+export type SubmissionFields = {
+  githubRepo: string;
+  deployedUrl?: string;
+  notes?: string;
+};
+
+export type SubmissionQuery = {
+  email?: string;
+  owner?: string;
+  amended?: boolean;
+  from?: Date;
+  to?: Date;
+};
+
+async function getSubmissions() {
+  const db = await getDb();
+  return db.collection<Submission>(SUBMISSIONS_COLLECTION);
+}
+
+// Create indexes (call once on startup). Not unique on email: submissions made before
+// amendments existed may hold several documents per candidate.
+export async function initSubmissions() {
+  const submissions = await getSubmissions();
+  await submissions.createIndex({ email: 1, submittedAt: -1 });
+  await submissions.createIndex({ submittedAt: -1 });
+  logger.info("Submission store initialized with indexes");
+}
+
+// https://github.com/<owner>/<repo>, optionally with a trailing slash or .git
+export function parseGithubRepo(url: string): { owner: string; repo: string } | null {
+  const match = /^https:\/\/(?:www\.)?github\.com\/([a-zA-Z0-9_-]+)\/([a-zA-Z0-9._-]+?)(?:\.git)?\/?$/i.exec(url.trim());
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+// Username from a profile URL as accepted by /start, e.g. https://github.com/octocat
+function githubUsername(profileUrl: string): string | null {
+  const match = /github\.com\/([a-zA-Z0-9_-]+)\/?$/i.exec(profileUrl);
+  return match ? match[1] : null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Check a submission against the candidate's profile: the repo must be owned by the
+// GitHub account they started the assignment with
+export async function validateSubmission(
+  email: string,
+  input: SubmissionInput
+): Promise<{ ok: true; fields: SubmissionFields } | { ok: false; status: number; error: string }> {
+  const { githubRepo, deployedUrl, notes } = input;
+
+  if (typeof githubRepo !== "string" || !githubRepo) {
+    return { ok: false, status: 400, error: "Missing githubRepo" };
+  }
+  const parsed = parseGithubRepo(githubRepo);
+  if (!parsed) {
+    return { ok: false, status: 400, error: "Invalid githubRepo. Expected format: https://github.com/<owner>/<repo>" };
+  }
+  if (deployedUrl !== undefined && (typeof deployedUrl !== "string" || !isHttpUrl(deployedUrl))) {
+    return { ok: false, status: 400, error: "Invalid deployedUrl. Expected an http(s) URL" };
+  }
+  if (notes !== undefined && (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH)) {
+    return { ok: false, status: 400, error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` };
+  }
+
+  const db = await getDb();
+  const candidate = await db.collection("candidates").findOne({ email });
+  const username = candidate?.github ? githubUsername(candidate.github) : null;
+  if (!username) {
+    return { ok: false, status: 404, error: "Candidate profile not found" };
+  }
+  if (parsed.owner.toLowerCase() !== username.toLowerCase()) {
+    return { ok: false, status: 400, error: `githubRepo must belong to your GitHub account (${username})` };
+  }
+
+  return {
+    ok: true,
+    fields: {
+      githubRepo: `https://github.com/${parsed.owner}/${parsed.repo}`,
+      ...(deployedUrl !== undefined && { deployedUrl: deployedUrl as string }),
+      ...(notes !== undefined && { notes: (notes as string).trim() })
+    }
+  };
+}
+
+// Submissions and amendments are accepted until this long after the assignment ended
+export function amendmentDeadline(endedAt: Date): Date {
+  return new Date(endedAt.getTime() + SUBMISSION_GRACE_MINUTES * 60000);
+}
+
+// Where the candidate's assignment stands for submitting: still running, or finished
+// (stopped or expired) with the deadline for submitting; null if it was never started
+export async function submissionWindow(email: string): Promise<{ active: boolean; amendableUntil: Date | null } | null> {
+  const db = await getDb();
+  const assignment = await db.collection("assignments").findOne({ email });
+  if (!assignment) {
+    return null;
+  }
+  const endedAt: Date | undefined = assignment.endedAt ?? assignment.expiredAt;
+  return {
+    active: assignment.status === "active",
+    amendableUntil: endedAt ? amendmentDeadline(new Date(endedAt)) : null
+  };
+}
+
+export async function getSubmission(email: string): Promise<Submission | null> {
+  const submissions = await getSubmissions();
+  return submissions.findOne({ email }, { projection: { _id: 0 }, sort: { submittedAt: -1 } });
+}
+
+// Store the candidate's submission, or amend the existing one keeping its previous values
+export async function saveSubmission(email: string, fields: SubmissionFields): Promise<Submission> {
+  const submissions = await getSubmissions();
+  const now = new Date();
+  const existing = await getSubmission(email);
+
+  if (!existing) {
+    const submission: Submission = { email, ...fields, submittedAt: now, updatedAt: now, amendments: 0, history: [] };
+    await submissions.insertOne({ ...submission });
+    logger.info("Submission recorded", { email, githubRepo: fields.githubRepo });
+    emitWebhookEvent("submission.created", { email, ...fields, submittedAt: now });
+    return submission;
+  }
+
+  const previous = {
+    githubRepo: existing.githubRepo,
+    ...(existing.deployedUrl !== undefined && { deployedUrl: existing.deployedUrl }),
+    ...(existing.notes !== undefined && { notes: existing.notes }),
+    replacedAt: now
+  };
+  const unset = {
+    ...(fields.deployedUrl === undefined && { deployedUrl: "" as const }),
+    ...(fields.notes === undefined && { notes: "" as const })
+  };
+  const amended = await submissions.findOneAndUpdate(
+    { email },
+    {
+      $set: { ...fields, updatedAt: now },
+      $inc: { amendments: 1 },
+      $push: { history: previous },
+      ...(Object.keys(unset).length > 0 && { $unset: unset })
+    },
+    { sort: { submittedAt: -1 }, projection: { _id: 0 }, returnDocument: "after" }
+  );
+  if (!amended) {
+    throw new Error("Submission not found");
+  }
+
+  logger.info("Submission amended", { email, githubRepo: fields.githubRepo, amendments: amended.amendments });
+  emitWebhookEvent("submission.amended", { email, ...fields, submittedAt: amended.submittedAt, amendedAt: now });
+  return amended;
+}
+
+// Newest first, one page at a time; total counts every match for the pager
+export async function listSubmissions(
+  query: SubmissionQuery,
+  page: number,
+  pageSize: number
+): Promise<{ total: number; submissions: Submission[] }> {
+  const submissions = await getSubmissions();
+  const filter: Filter<Submission> = {};
+  if (query.email) {
+    filter.email = query.email;
+  }
+  if (query.owner) {
+    filter.githubRepo = { $regex: `^https://github\\.com/${query.owner.replace(/[^a-zA-Z0-9_-]/g, "")}/`, $options: "i" };
+  }
+  if (query.amended !== undefined) {
+    filter.amendments = query.amended ? { $gt: 0 } : { $not: { $gt: 0 } };
+  }
+  if (query.from || query.to) {
+    filter.submittedAt = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lte: query.to })
+    };
+  }
+
+  const [total, results] = await Promise.all([
+    submissions.countDocuments(filter),
+    submissions
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ submittedAt: -1 })
+      .skip((page - 1) * pageSize)
+      .limit(pageSize)
+      .toArray()
+  ]);
+  return { total, submissions: results };
+}
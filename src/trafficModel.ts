@@ -0,0 +1,79 @@
+import { CatalogueCountry } from "./types";
+import { getCatalogue } from "./catalogue";
+import { Rng, weightedItem } from "./utils";
+
+// Relative activity by local hour (0-23) for countries without their own curve:
+// quiet overnight, building through the morning, peaking in the evening.
+export const DEFAULT_DIURNAL_CURVE = [
+  0.15, 0.1, 0.08, 0.07, 0.08, 0.12, 0.25, 0.45, 0.7, 0.85, 0.95, 1.0,
+  1.05, 1.0, 0.95, 0.95, 1.0, 1.05, 1.15, 1.2, 1.1, 0.85, 0.55, 0.3
+];
+
+// A single inter-arrival gap is capped at this multiple of the mean so a stream never goes silent
+const MAX_DELAY_FACTOR = 10;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23"
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Local time of day in hours (e.g. 13.5 for 13:30) in the given IANA timezone
+export function localHour(timezone: string, at: number): number {
+  const parts = formatterFor(timezone).formatToParts(new Date(at));
+  const hour = Number(parts.find(p => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === "minute")?.value ?? 0);
+  return hour + minute / 60;
+}
+
+function curveFor(country: CatalogueCountry): number[] {
+  return country.diurnalCurve ?? DEFAULT_DIURNAL_CURVE;
+}
+
+// Activity of a country at a moment, interpolated between the hourly points of its curve
+export function activityAt(country: CatalogueCountry, at: number): number {
+  const curve = curveFor(country);
+  const hour = localHour(country.timezone, at);
+  const from = Math.floor(hour) % 24;
+  const to = (from + 1) % 24;
+  return curve[from] + (curve[to] - curve[from]) * (hour - Math.floor(hour));
+}
+
+function averageActivity(country: CatalogueCountry): number {
+  const curve = curveFor(country);
+  return curve.reduce((sum, v) => sum + v, 0) / curve.length;
+}
+
+// How busy the given countries are right now relative to their daily average
+// (1 = average, 0.5 = half the usual rate), weighted by traffic share
+export function trafficMultiplier(at: number, countries: CatalogueCountry[] = getCatalogue().catalogue.countries): number {
+  let now = 0;
+  let average = 0;
+  for (const country of countries) {
+    now += country.weight * activityAt(country, at);
+    average += country.weight * averageActivity(country);
+  }
+  return average > 0 ? now / average : 1;
+}
+
+// Pick the country of the next payment, weighted by traffic share and current local activity
+export function pickActiveCountry(at: number, rng: Rng): CatalogueCountry {
+  const { countries } = getCatalogue().catalogue;
+  return weightedItem(countries, c => c.weight * activityAt(c, at), rng);
+}
+
+// Exponentially distributed gap for a Poisson process with the given mean (ms)
+export function poissonDelay(mean: number, rng: Rng): number {
+  const delay = -Math.log(1 - rng()) * mean;
+  return Math.max(1, Math.round(Math.min(delay, mean * MAX_DELAY_FACTOR)));
+}
@@ -14,15 +14,112 @@ export type EventMode =
   | "payment_spike"
   | "chaos";
 
+// Lifecycle of a payment: initiated -> (pending ->) authorized -> captured, optionally
+// followed by refunded or chargeback. declined and timed_out are terminal failures.
+export type PaymentStatus =
+  | "initiated"
+  | "pending"
+  | "authorized"
+  | "captured"
+  | "declined"
+  | "timed_out"
+  | "refunded"
+  | "chargeback";
+
+export type Merchant = {
+  id: string;
+  name: string;
+  category?: string;
+};
+
+// A country in the catalogue. weight is its share of traffic and paymentMethods its
+// method mix (relative weights, they don't need to sum to 100). diurnalCurve gives relative
+// activity for each local hour 0-23 in timezone; a default curve is used when omitted.
+export type CatalogueCountry = {
+  code: string;
+  name: string;
+  currency: string;
+  timezone: string;
+  weight: number;
+  diurnalCurve?: number[];
+  paymentMethods: Partial<Record<PaymentMethod, number>>;
+  merchants: Merchant[];
+};
+
+export type Catalogue = {
+  defaultFocusCountry: string;
+  countries: CatalogueCountry[];
+};
+
 export type PaymentEvent = {
   eventId: string;
+  paymentId: string;
   timestamp: string;
   amount: number;
   currency: string;
+  // amount converted to the FX table's base currency at the time the payment was initiated
+  normalizedAmount: number;
+  normalizedCurrency: string;
+  // ISO 3166-1 alpha-2 code
   country: string;
+  merchantId: string;
+  merchantName: string;
   paymentMethod: PaymentMethod;
   source: "web" | "mobile" | "api";
-  status: "success" | "failed";
+  status: PaymentStatus;
+};
+
+// One step of a scenario script. When rampSeconds is set, the event rate moves from the
+// previous step's mode to this one over the first rampSeconds of the step.
+export type ScenarioStep = {
+  mode: EventMode;
+  durationSeconds: number;
+  rampSeconds?: number;
+  country?: string;
+};
+
+export type Scenario = {
+  name: string;
+  description?: string;
+  loop?: boolean;
+  steps: ScenarioStep[];
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+// Copy of a scenario attached to a session, so later edits don't change a running test
+export type AttachedScenario = {
+  name: string;
+  loop: boolean;
+  steps: ScenarioStep[];
+  startedAt: number;
+};
+
+export type IncidentType =
+  | "method_outage"
+  | "regional_failure"
+  | "card_testing"
+  | "latency_degradation"
+  | "duplicate_events"
+  | "out_of_order";
+
+// A fault injected into a running session for a limited time. params depend on the type,
+// e.g. { paymentMethod } for method_outage or { country, peakFailureRate } for regional_failure.
+export type Incident = {
+  id: string;
+  type: IncidentType;
+  params: Record<string, string | number>;
+  startedAt: number;
+  endsAt: number;
+  endedEarly?: boolean;
+};
+
+// What the generator should be doing for a session right now
+export type TrafficSettings = {
+  mode: EventMode;
+  country?: string;
+  ramp?: { from: EventMode; progress: number };
+  scenario?: { name: string; stepIndex: number };
 };
 
 export type Session = {
@@ -31,4 +128,217 @@ export type Session = {
   endsAt: number;
   isActive: boolean;
   mode: EventMode;
+  // Country targeted by country_focus mode (catalogue code)
+  focusCountry?: string;
+  scenario?: AttachedScenario;
+  // Session tokens are only valid while their jti matches; rotating it revokes them
+  tokenId?: string;
+  // Set while the assignment clock is paused; endsAt moves forward by the paused time on resume
+  pausedAt?: number;
+  // Why an inactive session ended: the candidate called /stop, or time ran out
+  endedReason?: SessionEndReason;
+};
+
+export type SessionEndReason = "stopped" | "expired";
+
+export type ClockAction = "pause" | "resume" | "extend" | "reopen";
+
+// One change to an assignment's clock, kept so reviewers can see why endsAt moved
+export type ClockAdjustment = {
+  email: string;
+  at: Date;
+  action: ClockAction;
+  minutes?: number;
+  reason?: string;
+  by: string;
+  endsAtBefore: Date;
+  endsAtAfter: Date;
+};
+
+// A serialized frame on its way to a stream subscriber. Frames kept for replay carry an id.
+export type StreamFrame = {
+  kind: "payment" | "control";
+  data: string;
+  id?: number;
+};
+
+// What the server does with a connection's backlog when the client reads too slowly
+export type SlowConsumerPolicy = "drop_oldest" | "coalesce" | "disconnect";
+
+// Incident as announced on a stream (timestamps as ISO strings)
+export type IncidentDescription = {
+  id: string;
+  type: IncidentType;
+  params: Record<string, string | number>;
+  startedAt: string;
+  endsAt: string;
+  endedEarly?: boolean;
+};
+
+// Every non-payment frame a stream can carry. Over SSE each is a named event
+// (`event: <type>`) and payments stay unnamed, so onmessage only ever sees PaymentEvents.
+// Over WebSocket they arrive as { kind: "control", data: ControlEvent }.
+export type ControlEvent =
+  | {
+      type: "connected";
+      mode: EventMode;
+      seed?: number;
+      slowConsumer: SlowConsumerPolicy;
+      connections: number;
+      resumedFrom?: number;
+      replayed?: number;
+      gap?: boolean;
+    }
+  | { type: "demo_connected"; mode: EventMode; seed?: number; slowConsumer: SlowConsumerPolicy }
+  | { type: "mode_changed"; mode: EventMode; country?: string; scenario?: TrafficSettings["scenario"] }
+  | { type: "time_warning"; remainingSeconds: number; endsAt: string }
+  | { type: "clock_changed"; remainingSeconds: number; endsAt: string; paused: boolean }
+  | { type: "session_ended"; reason?: SessionEndReason }
+  | { type: "token_revoked" }
+  | { type: "incident_started"; incident: IncidentDescription }
+  | { type: "incident_ended"; incident: IncidentDescription }
+  | { type: "events_dropped"; count: number }
+  | {
+      type: "coalesced";
+      count: number;
+      fromId?: number;
+      toId?: number;
+      byStatus: Record<string, number>;
+      normalizedAmount: number;
+    }
+  | { type: "slow_consumer"; policy: SlowConsumerPolicy };
+
+// Admin roles, each including the ones before it: viewers read, reviewers also run
+// evaluations (resume, eval, incidents, scenarios on sessions), admins manage everything
+export type AdminRole = "viewer" | "reviewer" | "admin";
+
+// A named admin API key. Only a hash of the key is stored; prefix identifies it in listings.
+export type AdminKey = {
+  id: string;
+  name: string;
+  role: AdminRole;
+  keyHash: string;
+  prefix: string;
+  createdAt: Date;
+  createdBy: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+};
+
+// Who an admin request was authenticated as
+export type AdminIdentity = {
+  keyId: string;
+  name: string;
+  role: AdminRole;
+};
+
+// One admin request: who made it, against which route, with what arguments
+export type AuditEntry = {
+  at: Date;
+  actor: string;
+  keyId: string;
+  role: AdminRole;
+  method: string;
+  route: string;
+  params: Record<string, string | string[]>;
+  query: Record<string, unknown>;
+  body?: unknown;
+  status: number;
+  ip?: string;
+};
+
+export type WebhookEventType =
+  | "assignment.started"
+  | "assignment.completed"
+  | "submission.created"
+  | "submission.amended"
+  | "assignment.expired";
+
+// A registered receiver. The secret signs every payload (X-Payport-Signature) and is only
+// shown when the webhook is created.
+export type Webhook = {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: Date;
+  createdBy: string;
+};
+
+// One event on its way to one webhook, with its retry state
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  // When the next attempt is due; only set while the delivery is pending
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+};
+
+// What a candidate handed in. One per candidate; amendments replace the fields and keep the
+// previous values in history.
+export type Submission = {
+  email: string;
+  githubRepo: string;
+  deployedUrl?: string;
+  notes?: string;
+  submittedAt: Date;
+  updatedAt: Date;
+  amendments: number;
+  history: SubmissionRevision[];
+};
+
+export type SubmissionRevision = {
+  githubRepo: string;
+  deployedUrl?: string;
+  notes?: string;
+  replacedAt: Date;
+};
+
+// One thing reviewers score, on a 1..maxScore scale. weight sets its share of the overall score.
+export type RubricCriterion = {
+  key: string;
+  label: string;
+  weight: number;
+  maxScore: number;
+};
+
+// Rubrics are versioned; each score sheet records the version it was filled in against
+export type Rubric = {
+  version: number;
+  criteria: RubricCriterion[];
+  createdAt: Date;
+  createdBy: string;
+};
+
+// One reviewer's scores for one candidate. Drafts are private to their reviewer.
+export type ScoreSheet = {
+  email: string;
+  reviewerKeyId: string;
+  reviewer: string;
+  rubricVersion: number;
+  scores: Record<string, number>;
+  comments?: string;
+  status: "draft" | "submitted";
+  updatedAt: Date;
+  submittedAt?: Date;
+};
+
+export type EvaluationDecision = "advance" | "hold" | "reject";
+
+// not_reviewed and in_review are derived from the score sheets until a decision is recorded
+export type EvaluationStatus = "not_reviewed" | "in_review" | EvaluationDecision;
+
+export type Evaluation = {
+  email: string;
+  decision: EvaluationDecision;
+  note?: string;
+  decidedBy: string;
+  decidedAt: Date;
 };
@@ -1,22 +1,64 @@
-export const countries = [
-    { country: "US", currency: "USD" },
-    { country: "GB", currency: "GBP" },
-    { country: "Canada", currency: "CAD" },
-    { country: "Australia", currency: "AUD" },
-    { country: "UAE", currency: "AED" },
-    { country: "Germany", currency: "EUR" },
-    { country: "India", currency: "INR" }
-  ];
+  // Source of uniform numbers in [0, 1). Math.random for live traffic, createRng for replayable streams.
+  export type Rng = () => number;
+
+  // Mulberry32 - tiny seeded PRNG, same seed always yields the same sequence
+  export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // FNV-1a hash so any string (e.g. "42" or "review-round-2") can be used as a seed
+  export function hashSeed(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+  
+  export function randomItem<T>(arr: T[], rng: Rng = Math.random): T {
+    return arr[Math.floor(rng() * arr.length)];
+  }
   
-  export function randomItem<T>(arr: T[]): T {
-    return arr[Math.floor(Math.random() * arr.length)];
+  // Pick an item with probability proportional to its weight
+  export function weightedItem<T>(arr: T[], weight: (item: T) => number, rng: Rng = Math.random): T {
+    const total = arr.reduce((sum, item) => sum + weight(item), 0);
+    let roll = rng() * total;
+    for (const item of arr) {
+      roll -= weight(item);
+      if (roll < 0) {
+        return item;
+      }
+    }
+    return arr[arr.length - 1];
   }
   
-  export function randomAmount(min = 10, max = 500): number {
-    return Number((Math.random() * (max - min) + min).toFixed(2));
+  export function randomAmount(min = 10, max = 500, rng: Rng = Math.random): number {
+    return Number((rng() * (max - min) + min).toFixed(2));
   }
   
-  export function generateId(prefix = "evt") {
-    return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+  export function generateId(prefix = "evt", rng: Rng = Math.random) {
+    return `${prefix}_${rng().toString(36).slice(2, 10)}`;
+  }
+
+  // Whether Intl knows the IANA timezone (e.g. "Europe/Berlin")
+  export function isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Narrow parsed input (a request body, an uploaded file) to an object whose fields can be read
+  export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
   }
-  
\ No newline at end of file
@@ -0,0 +1,295 @@
+import { createHmac, randomBytes } from "crypto";
+import { Webhook, WebhookDelivery, WebhookEventType } from "./types";
+import { getDb } from "./db";
+import logger from "./logger";
+
+// Outbound webhooks. Each event becomes one delivery per subscribed webhook, stored first
+// and then attempted, so a receiver that is down gets it later: failed attempts are retried
+// with exponential backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+
+const WEBHOOKS_COLLECTION = "webhooks";
+const DELIVERIES_COLLECTION = "webhook_deliveries";
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  "assignment.started",
+  "assignment.completed",
+  "submission.created",
+  "submission.amended",
+  "assignment.expired"
+];
+
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+// First retry delay; doubles on every further failure (30s, 1m, 2m, ... capped at 1h)
+const WEBHOOK_RETRY_BASE_SECONDS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30;
+const WEBHOOK_RETRY_MAX_SECONDS = 3600;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// How often to look for deliveries whose retry is due
+const WEBHOOK_POLL_INTERVAL_MS = 5000;
+// A claimed delivery is invisible to other instances for this long
+const DELIVERY_LEASE_MS = WEBHOOK_TIMEOUT_MS * 3;
+
+export type WebhookView = Omit<Webhook, "secret">;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+async function getWebhooks() {
+  const db = await getDb();
+  return db.collection<Webhook>(WEBHOOKS_COLLECTION);
+}
+
+async function getDeliveries() {
+  const db = await getDb();
+  return db.collection<WebhookDelivery>(DELIVERIES_COLLECTION);
+}
+
+// Create indexes (call once on startup)
+export async function initWebhooks() {
+  const webhooks = await getWebhooks();
+  await webhooks.createIndex({ id: 1 }, { unique: true });
+  const deliveries = await getDeliveries();
+  await deliveries.createIndex({ id: 1 }, { unique: true });
+  await deliveries.createIndex({ status: 1, nextAttemptAt: 1 });
+  await deliveries.createIndex({ webhookId: 1, createdAt: -1 });
+  logger.info("Webhook store initialized with indexes");
+}
+
+// Signature header value: HMAC-SHA256 over "<timestamp>.<body>" with the webhook's secret.
+// Receivers recompute it and reject stale timestamps to stop replays.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_MAX_SECONDS, WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1)) * 1000;
+}
+
+// Register a receiver; the secret is only ever returned here
+export async function createWebhook(
+  url: string,
+  events: WebhookEventType[],
+  createdBy: string
+): Promise<Webhook> {
+  const webhooks = await getWebhooks();
+  const webhook: Webhook = {
+    id: randomBytes(8).toString("hex"),
+    url,
+    secret: `whsec_${randomBytes(24).toString("hex")}`,
+    events,
+    createdAt: new Date(),
+    createdBy
+  };
+
+  await webhooks.insertOne({ ...webhook });
+  logger.info("Webhook created", { webhookId: webhook.id, url, events, createdBy });
+  return webhook;
+}
+
+export async function listWebhooks(): Promise<WebhookView[]> {
+  const webhooks = await getWebhooks();
+  return webhooks
+    .find({}, { projection: { _id: 0, secret: 0 } })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+// Remove a webhook; its pending deliveries are abandoned. False if there is no such webhook.
+export async function deleteWebhook(id: string, deletedBy: string): Promise<boolean> {
+  const webhooks = await getWebhooks();
+  const result = await webhooks.deleteOne({ id });
+  if (result.deletedCount === 0) {
+    return false;
+  }
+  const deliveries = await getDeliveries();
+  await deliveries.updateMany(
+    { webhookId: id, status: "pending" },
+    { $set: { status: "failed", lastError: "Webhook deleted" }, $unset: { nextAttemptAt: "" } }
+  );
+  logger.info("Webhook deleted", { webhookId: id, deletedBy });
+  return true;
+}
+
+// Delivery log for one webhook, newest first
+export async function listDeliveries(
+  webhookId: string,
+  status: WebhookDelivery["status"] | undefined,
+  limit: number
+): Promise<WebhookDelivery[]> {
+  const deliveries = await getDeliveries();
+  return deliveries
+    .find({ webhookId, ...(status && { status }) }, { projection: { _id: 0 } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+// Queue a delivery for every webhook subscribed to the event and try them straight away.
+// Never throws: a webhook problem must not fail the candidate request that caused it.
+export async function emitWebhookEvent(event: WebhookEventType, data: Record<string, unknown>) {
+  try {
+    const webhooks = await getWebhooks();
+    const targets = await webhooks.find({ events: event }).toArray();
+    if (targets.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const deliveries: WebhookDelivery[] = targets.map((webhook) => {
+      const id = randomBytes(8).toString("hex");
+      return {
+        id,
+        webhookId: webhook.id,
+        event,
+        payload: JSON.stringify({ id, event, createdAt: now.toISOString(), data }),
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
+      };
+    });
+
+    const collection = await getDeliveries();
+    await collection.insertMany(deliveries.map((delivery) => ({ ...delivery })));
+    logger.info("Webhook event queued", { event, deliveries: deliveries.length });
+
+    for (const delivery of deliveries) {
+      claimAndAttempt(delivery.id).catch((error) => {
+        logger.error("Webhook delivery attempt failed", { deliveryId: delivery.id, error: error.message });
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to queue webhook event", {
+      event,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Take a due delivery (pushing nextAttemptAt out so no other instance picks it up meanwhile)
+// and attempt it
+async function claimAndAttempt(id?: string): Promise<boolean> {
+  const deliveries = await getDeliveries();
+  const now = new Date();
+  const delivery = await deliveries.findOneAndUpdate(
+    { ...(id && { id }), status: "pending", nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: "after" }
+  );
+  if (!delivery) {
+    return false;
+  }
+
+  const webhooks = await getWebhooks();
+  const webhook = await webhooks.findOne({ id: delivery.webhookId });
+  if (!webhook) {
+    await deliveries.updateOne(
+      { id: delivery.id },
+      { $set: { status: "failed", lastError: "Webhook deleted" }, $unset: { nextAttemptAt: "" } }
+    );
+    return true;
+  }
+
+  await attempt(webhook, delivery);
+  return true;
+}
+
+// POST a delivery to the receiver, signed with the webhook's secret. Never throws: error is
+// set when the receiver couldn't be reached or answered with a non-2xx status.
+export async function postDelivery(
+  webhook: Pick<Webhook, "url" | "secret">,
+  delivery: Pick<WebhookDelivery, "id" | "event" | "payload">
+): Promise<{ statusCode?: number; error?: string }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Payport-Webhooks/1.0",
+        "X-Payport-Event": delivery.event,
+        "X-Payport-Delivery": delivery.id,
+        "X-Payport-Signature": signPayload(webhook.secret, timestamp, delivery.payload)
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    return {
+      statusCode: response.status,
+      ...(!response.ok && { error: `Receiver responded ${response.status}` })
+    };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function attempt(webhook: Webhook, delivery: WebhookDelivery) {
+  const deliveries = await getDeliveries();
+  const attempts = delivery.attempts + 1;
+  const { statusCode, error } = await postDelivery(webhook, delivery);
+
+  if (!error) {
+    await deliveries.updateOne(
+      { id: delivery.id },
+      {
+        $set: { status: "delivered", attempts, deliveredAt: new Date(), lastStatusCode: statusCode },
+        $unset: { lastError: "", nextAttemptAt: "" }
+      }
+    );
+    logger.info("Webhook delivered", { webhookId: webhook.id, deliveryId: delivery.id, event: delivery.event, attempts });
+    return;
+  }
+
+  // A delivery that has used up its attempts is failed for good: no next attempt
+  const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  const outcome = {
+    attempts,
+    lastError: error,
+    ...(statusCode !== undefined && { lastStatusCode: statusCode })
+  };
+  await deliveries.updateOne(
+    { id: delivery.id },
+    exhausted
+      ? { $set: { status: "failed", ...outcome }, $unset: { nextAttemptAt: "" } }
+      : { $set: { status: "pending", nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)), ...outcome } }
+  );
+  logger.warn(exhausted ? "Webhook delivery failed, giving up" : "Webhook delivery failed, will retry", {
+    webhookId: webhook.id,
+    deliveryId: delivery.id,
+    event: delivery.event,
+    attempts,
+    error,
+    ...(!exhausted && { retryInSeconds: retryDelayMs(attempts) / 1000 })
+  });
+}
+
+// Work through every delivery whose retry is due
+async function pollDeliveries() {
+  if (polling) {
+    return;
+  }
+  polling = true;
+  try {
+    while (await claimAndAttempt()) {
+      // keep going until nothing is due
+    }
+  } catch (error) {
+    logger.error("Webhook delivery poll failed", { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    polling = false;
+  }
+}
+
+export function startWebhookDelivery() {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(pollDeliveries, WEBHOOK_POLL_INTERVAL_MS);
+  logger.info("Webhook delivery started", { maxAttempts: WEBHOOK_MAX_ATTEMPTS, retryBaseSeconds: WEBHOOK_RETRY_BASE_SECONDS });
+}
+
+export function stopWebhookDelivery() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
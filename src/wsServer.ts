@@ -0,0 +1,330 @@
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { ControlEvent, EventMode, Session, SlowConsumerPolicy, StreamFrame } from "./types";
+import { engineContextFor, EngineContext, VALID_MODES } from "./eventEngine";
+import { getSession, remainingMs } from "./sessionStore";
+import { authenticateSession } from "./sessionTokens";
+import { framesSince, recentFrames } from "./replayBuffer";
+import { EventFilter, parseFilter, parseFilterQuery } from "./filters";
+import { joinSessionStream, joinError, changeSessionMode, viewFrame, streamTraffic, SessionStream } from "./sessionStream";
+import { backpressureSink, FrameWriter, parseSlowConsumerPolicy } from "./backpressure";
+import { LIMITS, takeToken } from "./rateLimit";
+import { isRecord } from "./utils";
+import logger from "./logger";
+
+const WS_PATH = "/ws";
+// Bytes queued on a socket before the connection counts as congested
+const WS_HIGH_WATER_MARK = 1024 * 1024;
+const SNAPSHOT_EVENTS = 50;
+
+// Every message is an envelope: { kind: "payment" | "control", id?, data }.
+// data is a PaymentEvent for payments and a { type, ... } object for control frames.
+function envelope(frame: StreamFrame): string {
+  const id = frame.id !== undefined ? `,"id":${frame.id}` : "";
+  return `{"kind":"${frame.kind}"${id},"data":${frame.data}}`;
+}
+
+function sendControl(ws: WebSocket, payload: object) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(envelope({ kind: "control", data: JSON.stringify(payload) }));
+  }
+}
+
+// WebSocket transport for backpressureSink. ws has no drain event, so the send callback of
+// the frame that crossed the limit tells us when the socket has flushed.
+function wsWriter(ws: WebSocket): FrameWriter {
+  let waiting: (() => void)[] = [];
+  return {
+    write(frame) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return true;
+      }
+      ws.send(envelope(frame), () => {
+        if (waiting.length > 0 && ws.bufferedAmount < WS_HIGH_WATER_MARK) {
+          const callbacks = waiting;
+          waiting = [];
+          callbacks.forEach(callback => callback());
+        }
+      });
+      return ws.bufferedAmount < WS_HIGH_WATER_MARK;
+    },
+    onDrain(callback) {
+      waiting.push(callback);
+    },
+    close: () => ws.close(1000, "session_ended"),
+    abort: () => ws.terminate()
+  };
+}
+
+// Refuse an upgrade with a plain HTTP response before the handshake completes
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+// set_mode messages draw on the same buckets as POST /test/mode. Returns how many seconds
+// to wait when a limit is hit, null when the change may go ahead.
+async function modeChangeWait(email: string, ip: string | undefined): Promise<number | null> {
+  if (ip) {
+    const byIp = await takeToken("mode", "ip", ip, LIMITS.modePerIp);
+    if (!byIp.allowed) {
+      return byIp.retryAfterSeconds;
+    }
+  }
+  const byEmail = await takeToken("mode", "email", email, LIMITS.modePerEmail);
+  return byEmail.allowed ? null : byEmail.retryAfterSeconds;
+}
+
+// Serve /ws on the same HTTP server as the REST API. Query parameters match /events:
+// token (required), email, seed, epoch, lastEventId and the stream filters. clientIp
+// resolves the caller's address for rate limits (upgrades never pass through Express).
+export function attachWebSocketServer(
+  server: Server,
+  clientIp: (req: IncomingMessage) => string | undefined = (req) => req.socket.remoteAddress
+) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== WS_PATH) {
+      return rejectUpgrade(socket, 404, "Not Found");
+    }
+
+    const ip = clientIp(req);
+    if (ip && !(await takeToken("ws", "ip", ip, LIMITS.wsConnectPerIp)).allowed) {
+      return rejectUpgrade(socket, 429, "Too Many Requests");
+    }
+
+    const claimedEmail = url.searchParams.get("email") ?? undefined;
+    logger.info("WebSocket connection requested", { email: claimedEmail });
+
+    // Same session token as /events: ?token=, or an Authorization header from non-browser clients
+    const header = req.headers["authorization"];
+    const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : url.searchParams.get("token") ?? undefined;
+
+    let session: Session;
+    try {
+      const auth = await authenticateSession(token, claimedEmail);
+      if (!auth.ok) {
+        logger.warn("WebSocket connection failed: session token rejected", { email: claimedEmail, error: auth.error });
+        return rejectUpgrade(socket, auth.status, auth.status === 403 ? "Forbidden" : auth.status === 404 ? "Not Found" : "Unauthorized");
+      }
+      session = auth.session;
+      if (!session.isActive) {
+        logger.warn("WebSocket connection failed: no active session", { email: auth.email });
+        return rejectUpgrade(socket, 403, "Forbidden");
+      }
+    } catch (error) {
+      logger.error("WebSocket connection failed: database error", {
+        email: claimedEmail,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+    const { email } = session;
+
+    const ctx = engineContextFor(url.searchParams.get("seed") ?? undefined, url.searchParams.get("epoch") ?? undefined);
+    if (!ctx) {
+      logger.warn("WebSocket connection failed: invalid epoch", { email });
+      return rejectUpgrade(socket, 400, "Bad Request");
+    }
+
+    const { filter, errors } = parseFilterQuery(Object.fromEntries(url.searchParams));
+    if (errors.length > 0) {
+      logger.warn("WebSocket connection failed: invalid filters", { email, errors });
+      return rejectUpgrade(socket, 400, "Bad Request");
+    }
+
+    const slowConsumer = parseSlowConsumerPolicy(url.searchParams.get("slowConsumer") ?? undefined);
+    if (!slowConsumer) {
+      logger.warn("WebSocket connection failed: invalid slowConsumer policy", { email });
+      return rejectUpgrade(socket, 400, "Bad Request");
+    }
+
+    // Checked again on join; refusing here spares the client a handshake it can't use
+    const refusal = joinError(email, ctx);
+    if (refusal) {
+      logger.warn("WebSocket connection failed: cannot join session stream", { email, ...refusal });
+      return rejectUpgrade(socket, refusal.status, refusal.status === 429 ? "Too Many Requests" : "Conflict");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, session, ip, url.searchParams, ctx, filter, slowConsumer);
+    });
+  });
+
+  logger.info("WebSocket server attached", { path: WS_PATH });
+  return wss;
+}
+
+function handleConnection(
+  ws: WebSocket,
+  session: Session,
+  ip: string | undefined,
+  params: URLSearchParams,
+  ctx: EngineContext,
+  filter: EventFilter,
+  slowConsumer: SlowConsumerPolicy
+) {
+  const { email } = session;
+  const initialTraffic = streamTraffic(session, ctx);
+  const rawLastEventId = params.get("lastEventId");
+  const lastEventId = rawLastEventId !== null && /^\d+$/.test(rawLastEventId) ? Number(rawLastEventId) : null;
+  const replay = lastEventId !== null ? framesSince(email, lastEventId) : null;
+
+  const sink = backpressureSink(wsWriter(ws), slowConsumer, email, "ws");
+  const joined = joinSessionStream(email, initialTraffic, ctx, sink, "ws", filter, session.tokenId);
+
+  if (!joined.ok) {
+    sendControl(ws, { type: "error", error: joined.error });
+    return ws.close(1013, "cannot_join");
+  }
+  const stream: SessionStream = joined.stream;
+
+  logger.info("WebSocket connection established", {
+    email,
+    mode: initialTraffic.mode,
+    seed: joined.seed,
+    connections: joined.connections,
+    resumedFrom: lastEventId,
+    replayed: replay?.frames.length
+  });
+
+  const connected: ControlEvent = {
+    type: "connected",
+    mode: initialTraffic.mode,
+    seed: joined.seed,
+    slowConsumer,
+    connections: joined.connections,
+    resumedFrom: lastEventId ?? undefined,
+    replayed: replay?.frames.length,
+    gap: replay?.gap
+  };
+  sendControl(ws, connected);
+  replay?.frames.forEach(frame => {
+    const visible = viewFrame(frame, filter);
+    if (visible) {
+      sink.send(visible);
+    }
+  });
+
+  ws.on("message", async (raw) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      message = undefined;
+    }
+    if (!isRecord(message)) {
+      return sendControl(ws, { type: "error", error: "Messages must be JSON objects with a type" });
+    }
+
+    try {
+      await handleMessage(ws, email, ip, stream, message);
+    } catch (error) {
+      logger.error("WebSocket message failed", {
+        email,
+        messageType: message.type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      sendControl(ws, { type: "error", action: message.type, error: "Internal server error" });
+    }
+  });
+
+  ws.on("close", () => {
+    logger.info("WebSocket connection closed", { email, totalEvents: stream.eventCount(), dropped: sink.dropped() });
+    stream.stop();
+  });
+
+  ws.on("error", (error) => {
+    logger.warn("WebSocket error", { email, error: error.message });
+  });
+}
+
+// Client control messages:
+//   { type: "set_mode", mode, country? } same as POST /test/mode
+//   { type: "pause" } / { type: "resume" }
+//   { type: "set_filters", filters } e.g. { country: ["US", "GB"], minAmount: 100, fields: ["amount", "country"] }
+//   { type: "snapshot" }            current session state plus the most recent events
+async function handleMessage(
+  ws: WebSocket,
+  email: string,
+  ip: string | undefined,
+  stream: SessionStream,
+  message: Record<string, unknown>
+) {
+  switch (message.type) {
+    case "set_mode": {
+      const retryAfterSeconds = await modeChangeWait(email, ip);
+      if (retryAfterSeconds !== null) {
+        return sendControl(ws, { type: "error", action: "set_mode", error: "Too many requests. Try again later.", retryAfterSeconds });
+      }
+      const { mode, country } = message;
+      if (!VALID_MODES.includes(mode as EventMode)) {
+        return sendControl(ws, { type: "error", action: "set_mode", error: "Invalid mode", validModes: VALID_MODES });
+      }
+      if (country !== undefined && typeof country !== "string") {
+        return sendControl(ws, { type: "error", action: "set_mode", error: "country must be a country code" });
+      }
+      const result = await changeSessionMode(email, mode as EventMode, country);
+      if (!result.ok) {
+        return sendControl(ws, { type: "error", action: "set_mode", error: result.error });
+      }
+      logger.info("WebSocket mode changed", { email, mode, country: result.country });
+      return sendControl(ws, { type: "ack", action: "set_mode", mode, country: result.country });
+    }
+
+    case "pause":
+      stream.pause();
+      logger.info("WebSocket stream paused", { email });
+      return sendControl(ws, { type: "ack", action: "pause" });
+
+    case "resume":
+      stream.resume();
+      logger.info("WebSocket stream resumed", { email });
+      return sendControl(ws, { type: "ack", action: "resume" });
+
+    case "set_filters": {
+      const { filter, errors } = parseFilter(message.filters);
+      if (errors.length > 0) {
+        return sendControl(ws, { type: "error", action: "set_filters", error: "Invalid filters", details: errors });
+      }
+      stream.setFilter(filter);
+      logger.info("WebSocket filters set", { email, filter });
+      return sendControl(ws, { type: "ack", action: "set_filters", filters: filter });
+    }
+
+    case "snapshot": {
+      const session = await getSession(email);
+      if (!session) {
+        return sendControl(ws, { type: "error", action: "snapshot", error: "Session not found" });
+      }
+      const traffic = streamTraffic(session);
+      const recent = recentFrames(email, SNAPSHOT_EVENTS)
+        .filter(frame => frame.kind === "payment")
+        .map(frame => viewFrame(frame, stream.getFilter()))
+        .filter(frame => frame !== null)
+        .map(frame => JSON.parse(frame!.data));
+
+      return sendControl(ws, {
+        type: "snapshot",
+        mode: traffic.mode,
+        country: traffic.country,
+        scenario: traffic.scenario,
+        isActive: session.isActive,
+        paused: stream.isPaused(),
+        remainingSeconds: Math.floor(remainingMs(session) / 1000),
+        clockPaused: session.pausedAt !== undefined,
+        recentEvents: recent
+      });
+    }
+
+    default:
+      return sendControl(ws, {
+        type: "error",
+        error: "Unknown message type",
+        validTypes: ["set_mode", "pause", "resume", "set_filters", "snapshot"]
+      });
+  }
+}
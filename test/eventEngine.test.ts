@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createEngineContext, generatePayment, nextDelay } from "../src/eventEngine";
+import { trafficForSession } from "../src/scenario";
+import { hashSeed } from "../src/utils";
+import { PaymentEvent, Session } from "../src/types";
+
+const EPOCH = Date.parse("2026-03-02T09:00:00.000Z");
+
+// A session running a looping scenario with short steps, so a run crosses several of them
+function sessionWithScenario(): Session {
+  return {
+    email: "seeded@example.com",
+    name: "Seeded",
+    endsAt: EPOCH + 8 * 3600000,
+    isActive: true,
+    mode: "normal",
+    scenario: {
+      name: "short-steps",
+      loop: true,
+      startedAt: EPOCH,
+      steps: [
+        { mode: "normal", durationSeconds: 20 },
+        { mode: "high_traffic", durationSeconds: 10 },
+        { mode: "payment_spike", durationSeconds: 20, rampSeconds: 5 }
+      ]
+    }
+  };
+}
+
+// Drive the engine the way a session stream does: traffic from the scenario on the stream
+// clock, one payment per tick, then the delay to the next one
+function run(seed: string, count: number): { events: PaymentEvent[]; modes: string[] } {
+  const ctx = createEngineContext(hashSeed(seed), EPOCH);
+  const session = sessionWithScenario();
+  const events: PaymentEvent[] = [];
+  const modes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const traffic = trafficForSession(session, ctx.clock.now());
+    modes.push(traffic.mode);
+    events.push(generatePayment(traffic, ctx));
+    nextDelay(traffic, ctx);
+  }
+  return { events, modes };
+}
+
+test("the same seed and epoch replay the same events", () => {
+  const first = run("review-round-2", 300);
+  const second = run("review-round-2", 300);
+
+  assert.deepEqual(second.events, first.events);
+  assert.deepEqual(second.modes, first.modes);
+});
+
+test("scenario steps advance on the stream clock", () => {
+  const { events, modes } = run("review-round-2", 300);
+
+  assert.ok(new Set(modes).size > 1, "the run should cross into a later scenario step");
+  assert.ok(Date.parse(events[0].timestamp) >= EPOCH);
+  assert.ok(Date.parse(events[events.length - 1].timestamp) < Date.now(), "timestamps come from the virtual clock");
+});
+
+test("a different seed gives a different stream", () => {
+  const first = run("review-round-2", 50);
+  const other = run("review-round-3", 50);
+
+  assert.notDeepEqual(other.events, first.events);
+});
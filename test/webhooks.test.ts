@@ -0,0 +1,101 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { postDelivery, retryDelayMs, signPayload } from "../src/webhooks";
+
+const SECRET = "whsec_test";
+
+type Received = { headers: IncomingMessage["headers"]; body: string };
+
+// Local receiver: records every request and answers with whatever status is set
+let server: Server;
+let url: string;
+let status = 200;
+const received: Received[] = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// What a receiver does: recompute the HMAC over "<t>.<body>" and compare
+function verify(header: string, body: string, secret: string): boolean {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header);
+  if (!match) {
+    return false;
+  }
+  const expected = createHmac("sha256", secret).update(`${match[1]}.${body}`).digest("hex");
+  return match[2] === expected;
+}
+
+test("signPayload signs the timestamp and body with the secret", () => {
+  const body = JSON.stringify({ event: "submission.created" });
+  const header = signPayload(SECRET, 1700000000, body);
+
+  assert.match(header, /^t=1700000000,v1=[0-9a-f]{64}$/);
+  assert.ok(verify(header, body, SECRET));
+  assert.ok(!verify(header, body, "whsec_other"));
+  assert.ok(!verify(header, `${body} `, SECRET));
+  assert.notEqual(signPayload(SECRET, 1700000001, body), header);
+});
+
+test("retryDelayMs doubles from 30s and caps at an hour", () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6, 7, 8, 12].map(retryDelayMs),
+    [30000, 60000, 120000, 240000, 480000, 960000, 1920000, 3600000, 3600000]
+  );
+});
+
+test("postDelivery posts a signed payload the receiver can verify", async () => {
+  status = 200;
+  received.length = 0;
+  const payload = JSON.stringify({ id: "d1", event: "assignment.started", data: { email: "a@example.com" } });
+
+  const result = await postDelivery({ url, secret: SECRET }, { id: "d1", event: "assignment.started", payload });
+
+  assert.deepEqual(result, { statusCode: 200 });
+  assert.equal(received.length, 1);
+  const [{ headers, body }] = received;
+  assert.equal(body, payload);
+  assert.equal(headers["content-type"], "application/json");
+  assert.equal(headers["x-payport-event"], "assignment.started");
+  assert.equal(headers["x-payport-delivery"], "d1");
+  assert.ok(verify(headers["x-payport-signature"] as string, body, SECRET));
+});
+
+test("postDelivery reports a non-2xx response as an error to retry", async () => {
+  status = 503;
+  const result = await postDelivery({ url, secret: SECRET }, { id: "d2", event: "assignment.expired", payload: "{}" });
+
+  assert.deepEqual(result, { statusCode: 503, error: "Receiver responded 503" });
+});
+
+test("postDelivery reports an unreachable receiver as an error without a status", async () => {
+  const closed = createServer();
+  await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+  const port = (closed.address() as AddressInfo).port;
+  await new Promise((resolve) => closed.close(resolve));
+
+  const result = await postDelivery(
+    { url: `http://127.0.0.1:${port}/hook`, secret: SECRET },
+    { id: "d3", event: "assignment.expired", payload: "{}" }
+  );
+
+  assert.equal(result.statusCode, undefined);
+  assert.ok(result.error);
+});